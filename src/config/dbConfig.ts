@@ -2,6 +2,8 @@ export interface DbConfig {
   connectionString?: string;
   dbName: string;
   preload: string[],
+  /** Give loaded entities a $load(navigation) method that loads it on first use */
+  lazyLoading?: boolean;
   entities: {
     [key: string]: {
       type: new () => any;
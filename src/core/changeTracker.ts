@@ -0,0 +1,199 @@
+export type EntityState = 'Added' | 'Modified' | 'Deleted';
+
+export interface TrackedEntry {
+  tableName: string;
+  key: any;
+  state: EntityState;
+  entity: any;
+}
+
+interface TrackedTable {
+  primaryKey: string;
+  entries: Map<any, TrackedEntry>;
+}
+
+/**
+ * Opaque copy of the tracker state, used by transactions and savepoints.
+ */
+export type ChangeTrackerSnapshot = ReadonlyMap<string, TrackedTable>;
+
+/**
+ * Records pending Added/Modified/Deleted entities per table until the
+ * owning DbContext flushes them in saveChanges() or discards them.
+ */
+export class ChangeTracker {
+  private tables: Map<string, TrackedTable> = new Map();
+  private originalLinks: WeakMap<object, Map<string, Set<any>>> = new WeakMap();
+  private originalValues: WeakMap<object, any> = new WeakMap();
+
+  add(tableName: string, primaryKey: string, entity: any): TrackedEntry {
+    return this.setEntry(tableName, primaryKey, entity, 'Added');
+  }
+
+  modify(tableName: string, primaryKey: string, entity: any): TrackedEntry {
+    const existing = this.getEntry(tableName, entity[primaryKey]);
+    const state = existing?.state === 'Added' ? 'Added' : 'Modified';
+    return this.setEntry(tableName, primaryKey, entity, state);
+  }
+
+  remove(tableName: string, primaryKey: string, entity: any): void {
+    const key = entity[primaryKey];
+    const existing = this.getEntry(tableName, key);
+
+    if (existing?.state === 'Added') {
+      this.tables.get(tableName)!.entries.delete(key);
+      return;
+    }
+
+    this.setEntry(tableName, primaryKey, entity, 'Deleted');
+  }
+
+  getEntry(tableName: string, key: any): TrackedEntry | undefined {
+    return this.tables.get(tableName)?.entries.get(key);
+  }
+
+  getEntries(tableName?: string): TrackedEntry[] {
+    if (tableName) {
+      return Array.from(this.tables.get(tableName)?.entries.values() || []);
+    }
+
+    const entries: TrackedEntry[] = [];
+    for (const table of this.tables.values()) {
+      entries.push(...table.entries.values());
+    }
+    return entries;
+  }
+
+  getChangedTables(): string[] {
+    return Array.from(this.tables.entries())
+      .filter(([, table]) => table.entries.size > 0)
+      .map(([tableName]) => tableName);
+  }
+
+  hasChanges(tableName?: string): boolean {
+    if (tableName) {
+      return (this.tables.get(tableName)?.entries.size || 0) > 0;
+    }
+    return this.getChangedTables().length > 0;
+  }
+
+  /**
+   * Overlays the pending entries of a table on rows read from storage:
+   * modified rows are replaced in place, deleted rows dropped and added
+   * rows appended.
+   */
+  applyTo(tableName: string, rows: any[]): any[] {
+    const table = this.tables.get(tableName);
+    if (!table || table.entries.size === 0) {
+      return rows;
+    }
+
+    const { primaryKey, entries } = table;
+    const seen = new Set<any>();
+    const result: any[] = [];
+
+    for (const row of rows) {
+      const entry = entries.get(row[primaryKey]);
+      if (!entry) {
+        result.push(row);
+        continue;
+      }
+
+      seen.add(entry.key);
+      if (entry.state !== 'Deleted') {
+        result.push(entry.entity);
+      }
+    }
+
+    for (const entry of entries.values()) {
+      if (entry.state !== 'Deleted' && !seen.has(entry.key)) {
+        result.push(entry.entity);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Drops the given entries once they have been written, leaving any entry
+   * that was replaced while the write was in flight.
+   */
+  accept(entries: TrackedEntry[]): void {
+    for (const entry of entries) {
+      const table = this.tables.get(entry.tableName);
+      if (table?.entries.get(entry.key) === entry) {
+        table.entries.delete(entry.key);
+      }
+      if (entry.state === 'Deleted') {
+        this.originalValues.delete(entry.entity);
+      } else {
+        this.originalValues.set(entry.entity, { ...entry.entity });
+      }
+    }
+  }
+
+  clear(): void {
+    this.tables.clear();
+    this.originalLinks = new WeakMap();
+  }
+
+  /**
+   * Remembers the keys a many-to-many navigation of an entity held when it
+   * was loaded or last saved, so later edits to the collection can be told
+   * apart from links made elsewhere.
+   */
+  setOriginalLinks(entity: object, property: string, keys: Iterable<any>): void {
+    let links = this.originalLinks.get(entity);
+    if (!links) {
+      links = new Map();
+      this.originalLinks.set(entity, links);
+    }
+    links.set(property, new Set(keys));
+  }
+
+  getOriginalLinks(entity: object, property: string): ReadonlySet<any> | undefined {
+    return this.originalLinks.get(entity)?.get(property);
+  }
+
+  /**
+   * Records the values an entity had when the context first handed it out,
+   * normally the stored row it was built from. Later calls keep the first
+   * values until the entity is saved.
+   */
+  rememberOriginalValues(entity: object, values: object): void {
+    if (!this.originalValues.has(entity)) {
+      this.originalValues.set(entity, values);
+    }
+  }
+
+  getOriginalValues(entity: object): any | undefined {
+    return this.originalValues.get(entity);
+  }
+
+  snapshot(): ChangeTrackerSnapshot {
+    const copy = new Map<string, TrackedTable>();
+    for (const [tableName, table] of this.tables) {
+      copy.set(tableName, { primaryKey: table.primaryKey, entries: new Map(table.entries) });
+    }
+    return copy;
+  }
+
+  restore(snapshot: ChangeTrackerSnapshot): void {
+    this.tables.clear();
+    for (const [tableName, table] of snapshot) {
+      this.tables.set(tableName, { primaryKey: table.primaryKey, entries: new Map(table.entries) });
+    }
+  }
+
+  private setEntry(tableName: string, primaryKey: string, entity: any, state: EntityState): TrackedEntry {
+    let table = this.tables.get(tableName);
+    if (!table) {
+      table = { primaryKey, entries: new Map() };
+      this.tables.set(tableName, table);
+    }
+
+    const entry: TrackedEntry = { tableName, key: entity[primaryKey], state, entity };
+    table.entries.set(entry.key, entry);
+    return entry;
+  }
+}
@@ -1,19 +1,28 @@
 import { DbConfig } from "../config/dbConfig";
 import { FastStorageProvider } from "../storage/fastStorageProvider";
+import { SqliteStorageProvider } from "../storage/sqliteStorageProvider";
+import { StorageEntity, StorageProvider, supportsRowOperations } from "../storage/storageProvider";
+import { getIndexes, getPrimaryKey } from "../decorators/metadata";
 import { DbSet } from "./dbSet";
+import { ChangeTracker, TrackedEntry } from "./changeTracker";
+import { DbTransaction } from "./transaction";
+import { IndexManager } from "./indexManager";
+import { PredicateNode } from "../query/expressions";
+import { findLinks, getSkipNavigations } from "../query/relations";
+import { materialize, toStoredRow } from "./materializer";
+import { attachLoader } from "./lazyLoading";
+import { EntityEntry } from "./entityEntry";
 
-export interface StorageProvider {
-  connect(config: any): Promise<void>;
-  getData(table: string): Promise<any[]>;
-  saveData(table: string, data: any[]): Promise<void>;
-  query(table: string, filter: (item: any) => boolean): Promise<any[]>;
-  close(): Promise<void>;
-}
+export { StorageProvider };
 
 export abstract class DbContext {
   private dbSets: Map<string, DbSet<any>> = new Map();
+  private indexManagers: Map<string, IndexManager> = new Map();
   private storageProvider: StorageProvider;
   private isConnected: boolean = false;
+  private saveLock: Promise<void> = Promise.resolve();
+  private activeTransaction?: DbTransaction;
+  readonly changeTracker: ChangeTracker = new ChangeTracker();
 
   constructor(private config: DbConfig) {
     this.storageProvider = this.createStorageProvider();
@@ -29,7 +38,7 @@ export abstract class DbContext {
     } else if (connectionString.startsWith('fast://')) {
       return new FastStorageProvider();
     } else if (connectionString.startsWith('sqlite://')) {
-      throw new Error('SQLite provider not implemented yet');
+      return new SqliteStorageProvider();
     } else {
       throw new Error(`Unknown storage provider: ${connectionString}`);
     }
@@ -38,18 +47,72 @@ export abstract class DbContext {
   async connect(): Promise<void> {
     if (this.isConnected) return;
     
-    const config = this.parseConnectionString(this.config.connectionString || '');
+    const config = this.parseConnectionString(this.config.connectionString || 'memory://');
     await this.storageProvider.connect(config);
     
     this.initializeDbSets();
     this.isConnected = true;
   }
 
+  /**
+   * Turns a stored row into the entity instance handed out to callers,
+   * with a $load() method when lazy loading is enabled. Its values are
+   * remembered as the original values entry() reports.
+   */
+  materialize<T>(entityType: new () => T, row: any): T {
+    const entity: any = materialize(entityType, row);
+    if (!entity) return entity;
+
+    // Stored rows are replaced, never changed, so one can serve as the
+    // original values as it is; a tracked entity may still change
+    this.changeTracker.rememberOriginalValues(entity, row instanceof entityType ? { ...row } : row);
+    if (this.config.lazyLoading && !('$load' in entity)) {
+      attachLoader(this, entityType, entity);
+    }
+    return entity;
+  }
+
+  /**
+   * Gives access to an entity's tracking state and original values, and to
+   * explicit loading of its navigations.
+   */
+  entry<T extends object>(entity: T): EntityEntry<T> {
+    const entityType = entity.constructor as new () => T;
+    const mapped = this.getEntities().find(candidate => candidate.type === entityType);
+    if (!mapped) {
+      throw new Error(`${entityType.name} is not an entity of this context`);
+    }
+    return new EntityEntry(this, entityType, mapped.tableName, entity);
+  }
+
+  /**
+   * The entity types of this context with their table names.
+   */
+  getEntities(): StorageEntity[] {
+    return Object.entries(this.config.entities)
+      .map(([propertyName, entityConfig]) => ({
+        tableName: entityConfig.tableName || propertyName,
+        type: entityConfig.type
+      }));
+  }
+
   private parseConnectionString(connectionString: string): any {
+    const entities = this.getEntities();
+
+    if (connectionString.startsWith('sqlite://')) {
+      return {
+        filename: connectionString.slice('sqlite://'.length).split('?')[0] || ':memory:',
+        entities
+      };
+    }
+
     const url = new URL(connectionString.replace('fast://', 'http://'));
     return {
       dataDir: url.pathname || './data',
-      preload: this.config.preload || []
+      preload: this.config.preload || [],
+      wal: url.searchParams.get('wal') === 'true',
+      walCompactThreshold: Number(url.searchParams.get('walCompactThreshold')) || undefined,
+      entities
     };
   }
 
@@ -59,6 +122,14 @@ export abstract class DbContext {
     for (const [propertyName, entityConfig] of Object.entries(this.config.entities)) {
       const tableName = entityConfig.tableName || propertyName;
       
+      const indexes = getIndexes(entityConfig.type);
+      if (indexes.length > 0) {
+        this.indexManagers.set(
+          tableName,
+          new IndexManager(this, tableName, getPrimaryKey(entityConfig.type), indexes)
+        );
+      }
+
       const dbSet = new DbSet(this, entityConfig.type, tableName);
       this.dbSets.set(propertyName, dbSet);
       
@@ -70,24 +141,445 @@ export abstract class DbContext {
 
   async getData(tableName: string): Promise<any[]> {
     if (!this.isConnected) await this.connect();
-    return this.storageProvider.getData(tableName);
+    const data = await this.storageProvider.getData(tableName);
+    return this.changeTracker.applyTo(tableName, data);
   }
 
   async saveData(tableName: string, data: any[]): Promise<void> {
     if (!this.isConnected) await this.connect();
-    return this.storageProvider.saveData(tableName, data);
+    await this.storageProvider.saveData(tableName, data);
+    this.indexManagers.get(tableName)?.invalidate();
+  }
+
+  getIndexManager(tableName: string): IndexManager | undefined {
+    return this.indexManagers.get(tableName);
+  }
+
+  /**
+   * Drops the built indexes so they are rebuilt from the data on next use.
+   * Called whenever pending changes or stored rows are replaced wholesale.
+   */
+  invalidateIndexes(): void {
+    for (const indexes of this.indexManagers.values()) {
+      indexes.invalidate();
+    }
+  }
+
+  /**
+   * Looks up a single entity by primary key, honouring pending changes and
+   * using the provider's row-level lookup when it has one.
+   */
+  async getByKey(tableName: string, primaryKey: string, key: any): Promise<any | null> {
+    if (!this.isConnected) await this.connect();
+
+    const entry = this.changeTracker.getEntry(tableName, key);
+    if (entry) {
+      return entry.state === 'Deleted' ? null : entry.entity;
+    }
+
+    if (this.storageProvider.getByKey) {
+      return (await this.storageProvider.getByKey(tableName, key)) ?? null;
+    }
+
+    const data = await this.storageProvider.getData(tableName);
+    return data.find(item => item[primaryKey] === key) ?? null;
+  }
+
+  /**
+   * Reads the rows that may match an analyzed predicate, letting the storage
+   * provider filter them when it can. Pending changes are overlaid, so the
+   * result can include rows that do not match.
+   */
+  async getDataWhere(tableName: string, primaryKey: string, predicate: PredicateNode): Promise<any[]> {
+    if (!this.isConnected) await this.connect();
+    if (!this.storageProvider.queryWhere) {
+      return this.getData(tableName);
+    }
+
+    const rows = await this.storageProvider.queryWhere(tableName, predicate);
+    const entries = this.changeTracker.getEntries(tableName);
+    if (entries.length === 0) {
+      return rows;
+    }
+
+    const tracked = new Set(entries.map(entry => entry.key));
+    return rows
+      .filter(row => !tracked.has(row[primaryKey]))
+      .concat(entries.filter(entry => entry.state !== 'Deleted').map(entry => entry.entity));
+  }
+
+  /**
+   * Yields the rows of a table one at a time with pending changes overlaid,
+   * reading through the provider's scan() when it has one. With a predicate
+   * and a provider that can filter, only the rows it selects are read,
+   * through scanWhere() when the provider has it.
+   */
+  async *scanData(tableName: string, primaryKey: string, predicate?: PredicateNode): AsyncGenerator<any> {
+    if (!this.isConnected) await this.connect();
+
+    if (predicate && this.storageProvider.queryWhere && !this.storageProvider.scanWhere) {
+      yield* await this.getDataWhere(tableName, primaryKey, predicate);
+      return;
+    }
+
+    const rows = predicate && this.storageProvider.scanWhere
+      ? this.storageProvider.scanWhere(tableName, predicate)
+      : this.storageProvider.scan
+        ? this.storageProvider.scan(tableName)
+        : await this.storageProvider.getData(tableName);
+    const entries = new Map(this.changeTracker.getEntries(tableName).map(entry => [entry.key, entry]));
+
+    for await (const row of rows) {
+      const entry = entries.get(row[primaryKey]);
+      if (!entry) {
+        yield row;
+        continue;
+      }
+
+      entries.delete(entry.key);
+      if (entry.state !== 'Deleted') {
+        yield entry.entity;
+      }
+    }
+
+    for (const entry of entries.values()) {
+      if (entry.state !== 'Deleted') {
+        yield entry.entity;
+      }
+    }
   }
 
   async queryData(tableName: string, filter: (item: any) => boolean): Promise<any[]> {
+    if (!this.changeTracker.hasChanges(tableName)) {
+      if (!this.isConnected) await this.connect();
+      return this.storageProvider.query(tableName, filter);
+    }
+    const data = await this.getData(tableName);
+    return data.filter(filter);
+  }
+
+  /**
+   * Writes every pending change recorded by the change tracker and returns
+   * the number of entities written. Providers with row-level operations get
+   * only the changed rows; others get one saveData call per affected table.
+   * If any write fails, everything already written is undone so the flush is
+   * all-or-nothing.
+   */
+  async saveChanges(): Promise<number> {
     if (!this.isConnected) await this.connect();
-    return this.storageProvider.query(tableName, filter);
+
+    return this.withSaveLock(async () => {
+      const linkUpdates = await this.detectLinkChanges();
+      const entries = this.changeTracker.getEntries();
+
+      this.reindexPending(entries);
+      await this.assertUniquePending(entries);
+      await this.writeChanges(this.changeTracker);
+
+      this.changeTracker.accept(entries);
+      linkUpdates.forEach(update => update());
+      return entries.length;
+    });
+  }
+
+  /**
+   * Re-indexes added and modified entities from their current values. The
+   * caller holds the tracked instance, so it may have been edited since
+   * add() or update() indexed it.
+   */
+  private reindexPending(entries: TrackedEntry[]): void {
+    for (const entry of entries) {
+      if (entry.state !== 'Deleted') {
+        this.indexManagers.get(entry.tableName)?.track(entry.entity);
+      }
+    }
+  }
+
+  /**
+   * Checks unique indexes again for added and modified entities, since edits
+   * made after add() or update() were never checked.
+   */
+  private async assertUniquePending(entries: TrackedEntry[]): Promise<void> {
+    for (const entry of entries) {
+      if (entry.state !== 'Deleted') {
+        await this.indexManagers.get(entry.tableName)?.assertUnique(entry.entity);
+      }
+    }
+  }
+
+  /**
+   * Writes a batch of changes straight to storage, outside the change
+   * tracker, for executeUpdate() and executeDelete(). The batch is written
+   * in one flush that is undone if any write fails. Rows with unsaved
+   * changes in the context are refused, since the batch would overwrite or
+   * be overwritten by them.
+   */
+  async executeBatch(batch: ChangeTracker): Promise<void> {
+    if (!this.isConnected) await this.connect();
+
+    const entries = batch.getEntries();
+    for (const entry of entries) {
+      if (this.changeTracker.getEntry(entry.tableName, entry.key)) {
+        throw new Error(`Row ${entry.key} of '${entry.tableName}' has unsaved changes; call saveChanges() first`);
+      }
+    }
+
+    await this.withSaveLock(async () => {
+      try {
+        await this.writeChanges(batch);
+      } catch (error) {
+        new Set(entries.map(entry => entry.tableName)).forEach(tableName => this.indexManagers.get(tableName)?.invalidate());
+        throw error;
+      }
+    });
+
+    for (const entry of entries) {
+      const indexes = this.indexManagers.get(entry.tableName);
+      if (entry.state === 'Deleted') {
+        indexes?.untrack(entry.key);
+      } else {
+        indexes?.track(entry.entity);
+      }
+    }
+  }
+
+  /**
+   * Runs work after every save started before it has finished, so that
+   * flushes never interleave.
+   */
+  private async withSaveLock<R>(work: () => Promise<R>): Promise<R> {
+    const currentLock = this.saveLock;
+    let resolver: () => void;
+    this.saveLock = new Promise<void>(resolve => { resolver = resolve; });
+
+    try {
+      await currentLock;
+      return await work();
+    } finally {
+      resolver!();
+    }
   }
 
-  async saveChanges(): Promise<void> {
-    console.log('Changes committed');
+  /**
+   * Writes every entry of a tracker as one flush. A provider with batch()
+   * runs the flush inside it and undoes it itself; otherwise, if any write
+   * fails, everything already written is undone here.
+   */
+  private async writeChanges(tracker: ChangeTracker): Promise<void> {
+    const provider = this.storageProvider;
+    if (provider.batch) {
+      await provider.batch(() => this.writeTables(tracker, []));
+      return;
+    }
+
+    const undo: (() => Promise<void>)[] = [];
+    try {
+      await this.writeTables(tracker, undo);
+    } catch (error) {
+      for (const step of undo.reverse()) {
+        await step();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the entries of a tracker table by table, recording how to undo
+   * each write. Providers with row-level operations get only the changed
+   * rows; others get one saveData call per table.
+   */
+  private async writeTables(tracker: ChangeTracker, undo: (() => Promise<void>)[]): Promise<void> {
+    const entries = tracker.getEntries();
+    const tables = new Set(entries.map(entry => entry.tableName));
+
+    for (const tableName of tables) {
+      const transaction = this.activeTransaction;
+      if (transaction?.needsCapture(tableName)) {
+        transaction.captureTable(tableName, await this.storageProvider.getData(tableName));
+      }
+
+      if (supportsRowOperations(this.storageProvider)) {
+        await this.writeRows(tableName, entries.filter(entry => entry.tableName === tableName), undo);
+      } else {
+        const data = await this.storageProvider.getData(tableName);
+        const pending = new Set(entries.filter(entry => entry.tableName === tableName).map(entry => entry.entity));
+        undo.push(() => this.storageProvider.saveData(tableName, data));
+        await this.storageProvider.saveData(tableName, tracker.applyTo(tableName, data)
+          .map(row => pending.has(row) ? this.toStoredRow(tableName, row) : row));
+      }
+    }
+  }
+
+  /**
+   * Turns edits to the many-to-many collections of added and modified
+   * entities into join rows to add or remove. Links are compared with the
+   * ones the collection was loaded with, or with the stored join rows when
+   * it was not loaded. Returns the steps that remember the new links once
+   * the changes are saved.
+   */
+  private async detectLinkChanges(): Promise<(() => void)[]> {
+    const updates: (() => void)[] = [];
+    const entities = this.getEntities();
+
+    for (const { tableName, type } of entities) {
+      const navigations = getSkipNavigations(type, entities);
+      if (navigations.length === 0) continue;
+
+      const pending = this.changeTracker.getEntries(tableName)
+        .filter(entry => entry.state !== 'Deleted')
+        .map(entry => entry.entity);
+
+      for (const navigation of navigations) {
+        const { property, principalKey, relatedKey, foreignKey, relatedForeignKey } = navigation;
+        const owners = pending.filter(entity => Array.isArray(entity[property]));
+        if (owners.length === 0) continue;
+
+        const links = await findLinks(this, navigation, owners.map(owner => owner[principalKey]));
+        const joinSet = this.dbSetFor(navigation.joinTable);
+
+        for (const owner of owners) {
+          const key = owner[principalKey];
+          const stored = links.filter(link => link[foreignKey] === key);
+          const storedKeys = new Set(stored.map(link => link[relatedForeignKey]));
+          const current = new Set<any>(owner[property].map((related: any) => related[relatedKey]));
+
+          if (current.has(undefined) || current.has(null)) {
+            throw new Error(`Entities in '${property}' must be added before they are linked`);
+          }
+
+          const original = this.changeTracker.getOriginalLinks(owner, property) || storedKeys;
+          for (const link of stored) {
+            if (original.has(link[relatedForeignKey]) && !current.has(link[relatedForeignKey])) {
+              await joinSet.remove(link);
+            }
+          }
+          for (const relatedKeyValue of current) {
+            if (!storedKeys.has(relatedKeyValue)) {
+              await joinSet.add({ [foreignKey]: key, [relatedForeignKey]: relatedKeyValue });
+            }
+          }
+
+          updates.push(() => this.changeTracker.setOriginalLinks(owner, property, current));
+        }
+      }
+    }
+
+    return updates;
+  }
+
+  private dbSetFor(tableName: string): DbSet<any> {
+    for (const [propertyName, entityConfig] of Object.entries(this.config.entities)) {
+      if ((entityConfig.tableName || propertyName) === tableName) {
+        return this.dbSets.get(propertyName)!;
+      }
+    }
+    throw new Error(`No entity is mapped to table '${tableName}'`);
+  }
+
+  /**
+   * Applies tracked entries through the provider's row-level operations,
+   * recording the previous version of each row so the write can be undone.
+   * All rows of a table are issued together so providers can batch them.
+   */
+  private async writeRows(tableName: string, entries: TrackedEntry[], undo: (() => Promise<void>)[]): Promise<void> {
+    const provider = this.storageProvider as Required<StorageProvider>;
+    const before = await Promise.all(entries.map(entry => provider.getByKey(tableName, entry.key)));
+
+    entries.forEach((entry, i) => {
+      const previous = before[i];
+      undo.push(() => previous === undefined
+        ? provider.deleteByKey(tableName, entry.key)
+        : provider.updateByKey(tableName, entry.key, previous));
+    });
+
+    await Promise.all(entries.map((entry, i) => {
+      switch (entry.state) {
+        case 'Added':
+          return before[i] === undefined
+            ? provider.insert(tableName, this.toStoredRow(tableName, entry.entity))
+            : provider.updateByKey(tableName, entry.key, this.toStoredRow(tableName, entry.entity));
+        case 'Modified':
+          return provider.updateByKey(tableName, entry.key, this.toStoredRow(tableName, entry.entity));
+        case 'Deleted':
+          return before[i] === undefined ? Promise.resolve() : provider.deleteByKey(tableName, entry.key);
+      }
+    }));
+  }
+
+  private toStoredRow(tableName: string, entity: any): any {
+    const mapped = this.getEntities().find(candidate => candidate.tableName === tableName);
+    return mapped ? toStoredRow(mapped.type, entity) : { ...entity };
+  }
+
+  get currentTransaction(): DbTransaction | undefined {
+    return this.activeTransaction;
+  }
+
+  beginTransaction(): DbTransaction {
+    if (this.activeTransaction) {
+      throw new Error('A transaction is already in progress');
+    }
+
+    const transaction = new DbTransaction(this, () => {
+      if (this.activeTransaction === transaction) {
+        this.activeTransaction = undefined;
+      }
+    });
+    this.activeTransaction = transaction;
+    return transaction;
+  }
+
+  /**
+   * Runs work inside a transaction that is committed when it resolves and
+   * rolled back when it throws. Nested calls run inside a savepoint of the
+   * outer transaction instead of starting a new one.
+   */
+  async transaction<R>(work: (transaction: DbTransaction) => Promise<R>): Promise<R> {
+    const outer = this.activeTransaction;
+
+    if (outer) {
+      const savepoint = outer.createSavepoint();
+      try {
+        const result = await work(outer);
+        outer.releaseSavepoint(savepoint);
+        return result;
+      } catch (error) {
+        if (outer.isActive) {
+          await outer.rollbackToSavepoint(savepoint);
+          outer.releaseSavepoint(savepoint);
+        }
+        throw error;
+      }
+    }
+
+    const transaction = this.beginTransaction();
+    try {
+      const result = await work(transaction);
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      if (transaction.isActive) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Discards every pending change that has not been saved yet.
+   */
+  rejectChanges(): void {
+    this.changeTracker.clear();
+    this.invalidateIndexes();
   }
 
   async dispose(): Promise<void> {
+    if (this.activeTransaction?.isActive) {
+      await this.activeTransaction.rollback();
+    }
+    this.changeTracker.clear();
+    this.invalidateIndexes();
+
     if (this.isConnected) {
       await this.storageProvider.close();
       this.isConnected = false;
@@ -96,17 +588,53 @@ export abstract class DbContext {
 }
 
 class InMemoryStorageProvider implements StorageProvider {
-  private storage: Map<string, any[]> = new Map();
+  private storage: Map<string, Map<any, any>> = new Map();
+  private primaryKeys: Map<string, string> = new Map();
 
   async connect(config: any): Promise<void> {
+    for (const entity of (config.entities || []) as StorageEntity[]) {
+      this.primaryKeys.set(entity.tableName, getPrimaryKey(entity.type));
+    }
   }
 
   async getData(table: string): Promise<any[]> {
-    return [...(this.storage.get(table) || [])];
+    return Array.from(this.storage.get(table)?.values() || []);
   }
 
   async saveData(table: string, data: any[]): Promise<void> {
-    this.storage.set(table, [...data]);
+    const primaryKey = this.primaryKeys.get(table) || 'id';
+    this.storage.set(table, new Map(data.map(row => [row[primaryKey], row])));
+  }
+
+  async getByKey(table: string, key: any): Promise<any | undefined> {
+    return this.storage.get(table)?.get(key);
+  }
+
+  async *scan(table: string): AsyncGenerator<any> {
+    // Rows written while the caller iterates are not visited
+    yield* Array.from(this.storage.get(table)?.values() || []);
+  }
+
+  async insert(table: string, row: any): Promise<void> {
+    const primaryKey = this.primaryKeys.get(table) || 'id';
+    this.getTable(table).set(row[primaryKey], row);
+  }
+
+  async updateByKey(table: string, key: any, row: any): Promise<void> {
+    this.getTable(table).set(key, row);
+  }
+
+  async deleteByKey(table: string, key: any): Promise<void> {
+    this.storage.get(table)?.delete(key);
+  }
+
+  private getTable(table: string): Map<any, any> {
+    let rows = this.storage.get(table);
+    if (!rows) {
+      rows = new Map();
+      this.storage.set(table, rows);
+    }
+    return rows;
   }
 
   async query(table: string, filter: (item: any) => boolean): Promise<any[]> {
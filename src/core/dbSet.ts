@@ -1,8 +1,17 @@
-import { Queryable } from "../query/queryable";
-import { CreateEntity } from "../types/entity.types";
+import { IncludableQueryable, OrderedQueryable, QuerySource, Queryable } from "../query/queryable";
+import { PredicateNode } from "../query/expressions";
+import { SortComparer } from "../query/comparer";
+import { EqualityComparer } from "../query/equality";
+import { Grouping } from "../query/grouping";
+import { CreateEntity, EntityData } from "../types/entity.types";
+import { getPrimaryKey } from "../decorators/metadata";
+import { IndexManager } from "./indexManager";
+import { applyColumnOptions } from "./validation";
+import { assertReferencesExist, planDelete } from "./referentialIntegrity";
 
 export class DbSet<T> {
   private writeLock: Promise<void> = Promise.resolve();
+  private lastKey?: number;
   
   constructor(
     private dbContext: any,
@@ -14,20 +23,57 @@ export class DbSet<T> {
     return new Queryable(this.dbContext, this.entityType, this.tableName);
   }
 
-  where(predicate: (item: T) => boolean): Queryable<T> {
-    return this.query().where(predicate);
+  where(predicate: (item: T) => boolean): Queryable<T>;
+  where<A>(predicate: (item: T, args: A) => boolean, args: A): Queryable<T>;
+  where(predicate: PredicateNode): Queryable<T>;
+  where(predicate: ((item: T, args?: any) => boolean) | PredicateNode, args?: any): Queryable<T> {
+    return typeof predicate === 'function'
+      ? this.query().where(predicate, args)
+      : this.query().where(predicate);
   }
 
   select<R>(selector: (item: T) => R): Queryable<R> {
     return this.query().select(selector);
   }
 
-  orderBy(selector: (item: T) => any): Queryable<T> {
-    return this.query().orderBy(selector);
+  join<I, K, R>(
+    inner: QuerySource<I>,
+    outerKey: (item: T) => K,
+    innerKey: (row: I) => K,
+    resultSelector: (item: T, row: I) => R
+  ): Queryable<R> {
+    return this.query().join(inner, outerKey, innerKey, resultSelector);
   }
 
-  orderByDescending(selector: (item: T) => any): Queryable<T> {
-    return this.query().orderByDescending(selector);
+  groupJoin<I, K, R>(
+    inner: QuerySource<I>,
+    outerKey: (item: T) => K,
+    innerKey: (row: I) => K,
+    resultSelector: (item: T, rows: I[]) => R
+  ): Queryable<R> {
+    return this.query().groupJoin(inner, outerKey, innerKey, resultSelector);
+  }
+
+  selectMany<C>(collectionSelector: (item: T) => Iterable<C> | QuerySource<C> | null | undefined): Queryable<C>;
+  selectMany<C, R>(
+    collectionSelector: (item: T) => Iterable<C> | QuerySource<C> | null | undefined,
+    resultSelector: (item: T, child: C) => R
+  ): Queryable<R>;
+  selectMany(
+    collectionSelector: (item: T) => Iterable<any> | QuerySource<any> | null | undefined,
+    resultSelector?: (item: T, child: any) => any
+  ): Queryable<any> {
+    return resultSelector
+      ? this.query().selectMany(collectionSelector, resultSelector)
+      : this.query().selectMany(collectionSelector);
+  }
+
+  orderBy<K>(selector: (item: T) => K, comparer?: SortComparer<K>): OrderedQueryable<T> {
+    return this.query().orderBy(selector, comparer);
+  }
+
+  orderByDescending<K>(selector: (item: T) => K, comparer?: SortComparer<K>): OrderedQueryable<T> {
+    return this.query().orderByDescending(selector, comparer);
   }
 
   skip(count: number): Queryable<T> {
@@ -38,14 +84,34 @@ export class DbSet<T> {
     return this.query().take(count);
   }
 
-  include(selector: (item: T) => any): Queryable<T> {
+  between(selector: (item: T) => any, min: any, max: any): Queryable<T> {
+    return this.query().between(selector, min, max);
+  }
+
+  include<P>(selector: (item: T) => P): IncludableQueryable<T, P> {
     return this.query().include(selector);
   }
 
+  asPlain(): Queryable<T> {
+    return this.query().asPlain();
+  }
+
   async toArray(): Promise<T[]> {
     return this.query().toArray();
   }
 
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.query()[Symbol.asyncIterator]();
+  }
+
+  async forEachAsync(action: (item: T, index: number) => unknown): Promise<void> {
+    return this.query().forEachAsync(action);
+  }
+
+  chunk(size: number): AsyncIterable<T[]> {
+    return this.query().chunk(size);
+  }
+
   async first(): Promise<T | null> {
     return this.query().first();
   }
@@ -86,12 +152,44 @@ export class DbSet<T> {
     return this.query().max(selector);
   }
 
-  async groupBy<K>(keySelector: (item: T) => K): Promise<Map<K, T[]>> {
-    return this.query().groupBy(keySelector);
+  groupBy<K>(keySelector: (item: T) => K, aggregates?: ((item: T) => any)[]): Queryable<Grouping<K, T>> {
+    return this.query().groupBy(keySelector, aggregates);
+  }
+
+  async toLookup<K>(keySelector: (item: T) => K): Promise<Map<K, T[]>> {
+    return this.query().toLookup(keySelector);
+  }
+
+  async distinct(comparer?: EqualityComparer<T>): Promise<T[]> {
+    return this.query().distinct(comparer);
+  }
+
+  async executeUpdate(setter: (item: T) => Partial<EntityData<T>>): Promise<number> {
+    return this.query().executeUpdate(setter);
+  }
+
+  async executeDelete(): Promise<number> {
+    return this.query().executeDelete();
+  }
+
+  concat(other: QuerySource<T>): Queryable<T> {
+    return this.query().concat(other);
+  }
+
+  union(other: QuerySource<T>, comparer?: EqualityComparer<T>): Queryable<T> {
+    return this.query().union(other, comparer);
+  }
+
+  intersect(other: QuerySource<T>, comparer?: EqualityComparer<T>): Queryable<T> {
+    return this.query().intersect(other, comparer);
+  }
+
+  except(other: QuerySource<T>, comparer?: EqualityComparer<T>): Queryable<T> {
+    return this.query().except(other, comparer);
   }
 
-  async distinct(): Promise<T[]> {
-    return this.query().distinct();
+  distinctBy<K>(keySelector: (item: T) => K, comparer?: EqualityComparer<K>): Queryable<T> {
+    return this.query().distinctBy(keySelector, comparer);
   }
 
   private async withWriteLock<R>(operation: () => Promise<R>): Promise<R> {
@@ -109,78 +207,118 @@ export class DbSet<T> {
 
   async add(entity: CreateEntity<T>): Promise<T> {
     return this.withWriteLock(async () => {
-      const data = await this.dbContext.getData(this.tableName);
-      const primaryKey = Reflect.getMetadata('primaryKey', this.entityType.prototype) || 'id';
+      const newEntity = this.dbContext.materialize(this.entityType, { ...entity });
+      await this.assignKey(newEntity);
+      applyColumnOptions(this.entityType, this.tableName, newEntity);
+      await assertReferencesExist(this.dbContext, this.entityType, this.tableName, newEntity);
+      await this.indexes?.assertUnique(newEntity);
       
-      const newEntity = { ...entity } as any;
-      
-      if (!newEntity[primaryKey]) {
-        const maxId = Math.max(0, ...data.map((item: any) => item[primaryKey] || 0));
-        newEntity[primaryKey] = maxId + 1;
-      }
-      
-      data.push(newEntity);
-      await this.dbContext.saveData(this.tableName, data);
+      this.dbContext.changeTracker.add(this.tableName, this.primaryKey, newEntity);
+      this.indexes?.track(newEntity);
       return newEntity as T;
     });
   }
 
   async addRange(entities: CreateEntity<T>[]): Promise<T[]> {
     return this.withWriteLock(async () => {
-      const data = await this.dbContext.getData(this.tableName);
-      const primaryKey = Reflect.getMetadata('primaryKey', this.entityType.prototype) || 'id';
       const results: T[] = [];
       
-      let nextId = Math.max(0, ...data.map((item: any) => item[primaryKey] || 0)) + 1;
-      
-      for (const entity of entities) {
-        const newEntity = { ...entity } as any;
-        
-        if (!newEntity[primaryKey]) {
-          newEntity[primaryKey] = nextId++;
+      try {
+        for (const entity of entities) {
+          const newEntity = this.dbContext.materialize(this.entityType, { ...entity });
+          await this.assignKey(newEntity);
+          applyColumnOptions(this.entityType, this.tableName, newEntity);
+          await assertReferencesExist(this.dbContext, this.entityType, this.tableName, newEntity);
+          await this.indexes?.assertUnique(newEntity);
+          
+          this.dbContext.changeTracker.add(this.tableName, this.primaryKey, newEntity);
+          this.indexes?.track(newEntity);
+          results.push(newEntity as T);
+        }
+      } catch (error) {
+        // Leave nothing from a rejected batch behind
+        for (const added of results) {
+          this.dbContext.changeTracker.remove(this.tableName, this.primaryKey, added);
+          this.indexes?.untrack((added as any)[this.primaryKey]);
         }
-        
-        data.push(newEntity);
-        results.push(newEntity as T);
+        throw error;
       }
       
-      await this.dbContext.saveData(this.tableName, data);
       return results;
     });
   }
 
-  async update(entity: T): Promise<T> {
+  async update(data: EntityData<T>): Promise<T> {
     return this.withWriteLock(async () => {
-      const data = await this.dbContext.getData(this.tableName);
-      const primaryKey = Reflect.getMetadata('primaryKey', this.entityType.prototype) || 'id';
-      const id = (entity as any)[primaryKey];
+      // Keep the caller's instance tracked so that its entry() follows the update
+      const entity = data instanceof this.entityType ? data as T : this.dbContext.materialize(this.entityType, { ...data });
+      const id = (entity as any)[this.primaryKey];
       
-      const index = data.findIndex((item: any) => item[primaryKey] === id);
-      if (index === -1) {
+      const existing = await this.dbContext.getByKey(this.tableName, this.primaryKey, id);
+      if (!existing) {
         throw new Error('Entity not found');
       }
+      applyColumnOptions(this.entityType, this.tableName, entity);
+      await assertReferencesExist(this.dbContext, this.entityType, this.tableName, entity);
+      await this.indexes?.assertUnique(entity);
       
-      data[index] = entity;
-      await this.dbContext.saveData(this.tableName, data);
+      this.dbContext.changeTracker.modify(this.tableName, this.primaryKey, entity);
+      this.indexes?.track(entity);
       return entity;
     });
   }
 
-  async remove(entity: T): Promise<void> {
+  /**
+   * Removes an entity and applies the onDelete rules of the foreign keys
+   * that reference it. If a restrict rule is violated nothing is removed.
+   */
+  async remove(entity: EntityData<T>): Promise<void> {
     return this.withWriteLock(async () => {
-      const data = await this.dbContext.getData(this.tableName);
-      const primaryKey = Reflect.getMetadata('primaryKey', this.entityType.prototype) || 'id';
-      const id = (entity as any)[primaryKey];
-      
-      const filteredData = data.filter((item: any) => item[primaryKey] !== id);
-      await this.dbContext.saveData(this.tableName, filteredData);
+      const changes = await planDelete(this.dbContext, this.entityType, this.tableName, entity);
+
+      for (const change of changes) {
+        const primaryKey = getPrimaryKey(change.entityType);
+        const indexes: IndexManager | undefined = this.dbContext.getIndexManager(change.tableName);
+
+        if (change.kind === 'remove') {
+          this.dbContext.changeTracker.remove(change.tableName, primaryKey, change.entity);
+          indexes?.untrack(change.entity[primaryKey]);
+        } else {
+          this.dbContext.changeTracker.modify(change.tableName, primaryKey, change.entity);
+          indexes?.track(change.entity);
+        }
+      }
     });
   }
 
   async find(id: any): Promise<T | null> {
-    const data = await this.dbContext.getData(this.tableName);
-    const primaryKey = Reflect.getMetadata('primaryKey', this.entityType.prototype) || 'id';
-    
-    return data.find((item: any) => item[primaryKey] === id) || null;
+    return this.dbContext.materialize(this.entityType, await this.dbContext.getByKey(this.tableName, this.primaryKey, id));
+  }
+
+  private get indexes(): IndexManager | undefined {
+    return this.dbContext.getIndexManager(this.tableName);
+  }
+
+  private get primaryKey(): string {
+    return getPrimaryKey(this.entityType);
+  }
+
+  /**
+   * Generates the next auto-increment key. The highest key is read from the
+   * table once and then kept in memory, so bulk inserts stay linear.
+   */
+  private async assignKey(entity: any): Promise<void> {
+    const primaryKey = this.primaryKey;
+
+    if (this.lastKey === undefined) {
+      const data = await this.dbContext.getData(this.tableName);
+      this.lastKey = data.reduce((max: number, item: any) => Math.max(max, Number(item[primaryKey]) || 0), 0);
+    }
+
+    if (!entity[primaryKey]) {
+      entity[primaryKey] = ++this.lastKey!;
+    } else if (typeof entity[primaryKey] === 'number') {
+      this.lastKey = Math.max(this.lastKey!, entity[primaryKey]);
+    }
   }
 }
\ No newline at end of file
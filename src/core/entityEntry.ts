@@ -0,0 +1,136 @@
+import { getPersistedProperties, getPrimaryKey } from "../decorators/metadata";
+import { ExpressionParser } from "../query/expression-parser";
+import { NavigationTarget, Queryable } from "../query/queryable";
+import { Navigation, findNavigation, loadIncludes } from "../query/relations";
+import { EntityData } from "../types/entity.types";
+import { EntityState } from "./changeTracker";
+
+/**
+ * The state entry() reports: a pending change, Unchanged for an entity the
+ * context has handed out or saved, or Detached for one it has never seen.
+ */
+export type EntryState = EntityState | 'Unchanged' | 'Detached';
+
+/**
+ * What a DbContext knows about one entity, returned by db.entry(entity).
+ */
+export class EntityEntry<T extends object> {
+  constructor(
+    private dbContext: any,
+    private entityType: new () => T,
+    private tableName: string,
+    readonly entity: T
+  ) {}
+
+  get state(): EntryState {
+    const key = (this.entity as any)[getPrimaryKey(this.entityType)];
+    const tracked = this.dbContext.changeTracker.getEntry(this.tableName, key);
+    if (tracked) {
+      return tracked.state;
+    }
+    return this.dbContext.changeTracker.getOriginalValues(this.entity) ? 'Unchanged' : 'Detached';
+  }
+
+  /**
+   * The stored values the entity had when it was loaded or last saved, or
+   * undefined for a detached entity.
+   */
+  get originalValues(): Partial<EntityData<T>> | undefined {
+    const original = this.dbContext.changeTracker.getOriginalValues(this.entity);
+    if (!original) return undefined;
+
+    const values: any = {};
+    for (const property of getPersistedProperties(this.entityType)) {
+      if (property in original) {
+        values[property] = original[property];
+      }
+    }
+    return values;
+  }
+
+  /**
+   * A navigation holding one entity, such as Order.user or User.profile.
+   */
+  reference<P>(selector: (entity: T) => P): ReferenceEntry<NonNullable<P>> {
+    const navigation = this.findNavigation(selector);
+    if (navigation.kind !== 'reference' && !(navigation.kind === 'collection' && navigation.single)) {
+      throw new Error(`'${navigation.property}' on ${this.entityType.name} is not a reference navigation`);
+    }
+    return new ReferenceEntry(this.dbContext, this.entityType, this.entity, navigation);
+  }
+
+  /**
+   * A navigation holding many entities, such as Order.orderItems or
+   * Product.tags.
+   */
+  collection<P>(selector: (entity: T) => P): CollectionEntry<NavigationTarget<P>> {
+    const navigation = this.findNavigation(selector);
+    if (navigation.kind === 'reference' || (navigation.kind === 'collection' && navigation.single)) {
+      throw new Error(`'${navigation.property}' on ${this.entityType.name} is not a collection navigation`);
+    }
+    return new CollectionEntry(this.dbContext, this.entityType, this.entity, navigation);
+  }
+
+  private findNavigation(selector: (entity: T) => any): Navigation {
+    const property = ExpressionParser.extractPropertyPath(selector);
+    const navigation = findNavigation(this.entityType, property, this.dbContext.getEntities());
+    if (!navigation) {
+      throw new Error(`'${property}' is not a navigation of ${this.entityType.name}`);
+    }
+    return navigation;
+  }
+}
+
+/**
+ * Explicit loading of one navigation of an entity. load() fills it the way
+ * include() would; query() reads the related rows as a query that can be
+ * filtered, sorted and paged before its load() fills the navigation with
+ * what it returns. The entity itself is not read again.
+ */
+abstract class NavigationEntry<E> {
+  constructor(
+    protected dbContext: any,
+    protected entityType: Function,
+    protected entity: any,
+    protected navigation: Navigation
+  ) {}
+
+  get isLoaded(): boolean {
+    return this.entity[this.navigation.property] !== undefined;
+  }
+
+  query(): Queryable<E> {
+    const navigation = this.navigation;
+    if (navigation.kind === 'skip') {
+      throw new Error(`query() is not supported for the many-to-many navigation '${navigation.property}'`);
+    }
+
+    const [property, value] = navigation.kind === 'reference'
+      ? [navigation.relatedKey, this.entity[navigation.foreignKey]]
+      : [navigation.foreignKey, this.entity[navigation.principalKey]];
+    const single = navigation.kind === 'reference' || navigation.single;
+
+    return new Queryable<E>(this.dbContext, navigation.relatedType, navigation.relatedTable, {
+      entity: this.entity,
+      property: navigation.property,
+      single
+    }).where({ kind: 'comparison', property, op: 'eq', value });
+  }
+
+  protected async loadNavigation(): Promise<any> {
+    await loadIncludes(this.dbContext, this.entityType, [this.entity], [this.navigation.property], false);
+    return this.entity[this.navigation.property];
+  }
+}
+
+export class ReferenceEntry<E> extends NavigationEntry<E> {
+  async load(): Promise<E | undefined> {
+    return this.loadNavigation();
+  }
+}
+
+export class CollectionEntry<E> extends NavigationEntry<E> {
+  async load(): Promise<E[]> {
+    return this.loadNavigation();
+  }
+}
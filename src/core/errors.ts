@@ -0,0 +1,53 @@
+/**
+ * Thrown when an add or update would give two rows the same value in a
+ * unique column or unique index.
+ */
+export class UniqueConstraintError extends Error {
+  constructor(
+    readonly tableName: string,
+    readonly column: string,
+    readonly value: any
+  ) {
+    super(`Unique constraint violated on '${tableName}.${column}': value ${JSON.stringify(value)} already exists`);
+    this.name = 'UniqueConstraintError';
+  }
+}
+
+export interface PropertyValidationFailure {
+  property: string;
+  message: string;
+}
+
+/**
+ * Thrown when an entity does not satisfy its @Column options. Lists every
+ * failing property, not only the first one.
+ */
+export class ValidationError extends Error {
+  constructor(
+    readonly tableName: string,
+    readonly failures: PropertyValidationFailure[]
+  ) {
+    super(`Validation failed for '${tableName}': ${failures.map(f => `${f.property} ${f.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when a foreign key would point at a row that does not exist
+ * ('missing'), or when deleting a row that is still referenced through a
+ * foreign key with onDelete: 'restrict' ('restricted').
+ */
+export class ForeignKeyViolationError extends Error {
+  constructor(
+    readonly tableName: string,
+    readonly foreignKey: string,
+    readonly relatedTableName: string,
+    readonly value: any,
+    readonly reason: 'missing' | 'restricted'
+  ) {
+    super(reason === 'missing'
+      ? `Foreign key '${tableName}.${foreignKey}' references a missing row in '${relatedTableName}': value ${JSON.stringify(value)}`
+      : `Cannot delete from '${relatedTableName}': rows in '${tableName}' still reference value ${JSON.stringify(value)} through '${foreignKey}'`);
+    this.name = 'ForeignKeyViolationError';
+  }
+}
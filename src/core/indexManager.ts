@@ -0,0 +1,360 @@
+import { IndexMetadata } from "../decorators/metadata";
+import { compareTuples, compareValues } from "../query/comparer";
+import { ComparisonNode, PredicateNode } from "../query/expressions";
+import { UniqueConstraintError } from "./errors";
+
+interface Bound {
+  value: any;
+  inclusive: boolean;
+}
+
+interface IndexEntry {
+  values: any[];
+  keys: Set<any>;
+}
+
+/**
+ * One secondary index: a hash of key values to primary keys for equality
+ * lookups, plus the same entries kept sorted for ranges and ordering.
+ */
+class TableIndex {
+  private entries: Map<string, IndexEntry> = new Map();
+  private sorted: IndexEntry[] = [];
+  private rowKeys: Map<any, string> = new Map();
+
+  constructor(readonly definition: IndexMetadata) {}
+
+  set(key: any, row: any): void {
+    const values = this.definition.properties.map(property => row[property]);
+    const encoded = encodeKey(values);
+    const current = this.rowKeys.get(key);
+
+    if (current === encoded) return;
+    if (current !== undefined) this.delete(key);
+
+    let entry = this.entries.get(encoded);
+    if (!entry) {
+      entry = { values, keys: new Set() };
+      this.entries.set(encoded, entry);
+      this.sorted.splice(this.lowerBound(values, values.length), 0, entry);
+    }
+
+    entry.keys.add(key);
+    this.rowKeys.set(key, encoded);
+  }
+
+  delete(key: any): void {
+    const encoded = this.rowKeys.get(key);
+    if (encoded === undefined) return;
+
+    this.rowKeys.delete(key);
+    const entry = this.entries.get(encoded)!;
+    entry.keys.delete(key);
+
+    if (entry.keys.size === 0) {
+      this.entries.delete(encoded);
+      let i = this.lowerBound(entry.values, entry.values.length);
+      while (this.sorted[i] !== entry) i++;
+      this.sorted.splice(i, 1);
+    }
+  }
+
+  get(values: any[]): ReadonlySet<any> | undefined {
+    return this.entries.get(encodeKey(values))?.keys;
+  }
+
+  /**
+   * Keys of rows whose leading indexed property lies between the bounds;
+   * a missing bound leaves that side open. Null and undefined sort first,
+   * so an upper bound alone includes them; with a lower bound they are
+   * added when null passes both bounds the way a JavaScript comparison
+   * coerces it, as `null >= 0` does.
+   */
+  range(lower?: Bound, upper?: Bound): any[] {
+    const keys: any[] = [];
+    if (lower && !isMissing(lower.value) && admitsNull(lower, upper)) {
+      for (const entry of this.sorted) {
+        if (!isMissing(entry.values[0])) break;
+        keys.push(...entry.keys);
+      }
+    }
+    for (let i = lower ? this.lowerBound([lower.value], 1) : 0; i < this.sorted.length; i++) {
+      const entry = this.sorted[i];
+      if (lower && !lower.inclusive && compareValues(entry.values[0], lower.value) === 0) continue;
+      if (upper) {
+        const result = compareValues(entry.values[0], upper.value);
+        if (result > 0 || (result === 0 && !upper.inclusive)) break;
+      }
+      keys.push(...entry.keys);
+    }
+    return keys;
+  }
+
+  ordered(descending: boolean): any[] {
+    const entries = descending ? [...this.sorted].reverse() : this.sorted;
+    const keys: any[] = [];
+    for (const entry of entries) {
+      keys.push(...entry.keys);
+    }
+    return keys;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.sorted = [];
+    this.rowKeys.clear();
+  }
+
+  private lowerBound(values: any[], length: number): number {
+    let low = 0;
+    let high = this.sorted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (compareTuples(this.sorted[mid].values.slice(0, length), values) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
+
+function encodeKey(values: any[]): string {
+  return JSON.stringify(values.map(value =>
+    value instanceof Date ? { $date: value.getTime() } : value === undefined ? null : value));
+}
+
+/**
+ * Maintains the @Index indexes of one table. Indexes are built from the
+ * table the first time they are needed and then kept up to date by DbSet as
+ * entities are added, updated and removed. Anything that replaces the data
+ * wholesale (rollback, rejectChanges) invalidates them so they are rebuilt.
+ */
+export class IndexManager {
+  private indexes: TableIndex[];
+  private built = false;
+  private building?: Promise<void>;
+  private version = 0;
+
+  constructor(
+    private dbContext: any,
+    private tableName: string,
+    private primaryKey: string,
+    definitions: IndexMetadata[]
+  ) {
+    this.indexes = definitions.map(definition => new TableIndex(definition));
+  }
+
+  get hasIndexes(): boolean {
+    return this.indexes.length > 0;
+  }
+
+  /**
+   * Throws a UniqueConstraintError if the entity would duplicate the values
+   * of a unique index held by another row. Rows with a null or undefined
+   * indexed value are exempt.
+   */
+  async assertUnique(entity: any): Promise<void> {
+    const unique = this.indexes.filter(index => index.definition.unique);
+    if (unique.length === 0) return;
+
+    await this.ensureBuilt();
+    const key = entity[this.primaryKey];
+
+    for (const index of unique) {
+      const values = index.definition.properties.map(property => entity[property]);
+      if (values.some(value => value === undefined || value === null)) continue;
+
+      const keys = index.get(values);
+      if (keys && Array.from(keys).some(existing => existing !== key)) {
+        const { properties } = index.definition;
+        throw properties.length === 1
+          ? new UniqueConstraintError(this.tableName, properties[0], values[0])
+          : new UniqueConstraintError(this.tableName, properties.join(', '), values);
+      }
+    }
+  }
+
+  track(entity: any): void {
+    if (!this.built) {
+      this.version++;
+      return;
+    }
+    for (const index of this.indexes) {
+      index.set(entity[this.primaryKey], entity);
+    }
+  }
+
+  untrack(key: any): void {
+    if (!this.built) {
+      this.version++;
+      return;
+    }
+    for (const index of this.indexes) {
+      index.delete(key);
+    }
+  }
+
+  invalidate(): void {
+    this.version++;
+    this.built = false;
+    for (const index of this.indexes) {
+      index.clear();
+    }
+  }
+
+  /**
+   * Returns the primary keys of the rows that can satisfy the predicate, or
+   * undefined when no index can answer it. Callers still apply their
+   * filters to the rows, so the result may be a superset.
+   */
+  async lookup(predicate?: PredicateNode): Promise<any[] | undefined> {
+    if (!this.hasIndexes || !predicate) return undefined;
+
+    const plan = this.plan(predicate);
+    if (!plan) return undefined;
+
+    await this.ensureBuilt();
+    return plan();
+  }
+
+  private plan(node: PredicateNode): (() => any[]) | undefined {
+    switch (node.kind) {
+      case 'or': {
+        const plans = node.operands.map(operand => this.plan(operand));
+        if (plans.some(plan => !plan)) return undefined;
+        return () => Array.from(new Set(plans.flatMap(plan => plan!())));
+      }
+      case 'not':
+        return undefined;
+      case 'and':
+        return this.planConjunction(node.operands);
+      default:
+        return this.planConjunction([node]);
+    }
+  }
+
+  /**
+   * Picks an index for a list of conditions that must all hold: a hash
+   * lookup when equality conditions cover every property of an index,
+   * otherwise a range scan over an index led by a compared property.
+   */
+  private planConjunction(operands: PredicateNode[]): (() => any[]) | undefined {
+    const comparisons = operands.filter((operand): operand is ComparisonNode => operand.kind === 'comparison');
+
+    const equal = new Map<string, any>();
+    for (const comparison of comparisons) {
+      if (comparison.op === 'eq' && !equal.has(comparison.property)) {
+        equal.set(comparison.property, comparison.value);
+      }
+    }
+
+    const exact = this.indexes
+      .filter(index => index.definition.properties.every(property => equal.has(property)))
+      .sort((a, b) => b.definition.properties.length - a.definition.properties.length)[0];
+
+    if (exact) {
+      const values = exact.definition.properties.map(property => equal.get(property));
+      return () => Array.from(exact.get(values) || []);
+    }
+
+    for (const comparison of comparisons) {
+      const index = this.indexes.find(index => index.definition.properties[0] === comparison.property);
+      if (index && comparison.op !== 'ne') {
+        const [lower, upper] = boundsFor(comparison.property, comparisons);
+        return () => index.range(lower, upper);
+      }
+    }
+
+    for (const operand of operands) {
+      if (operand.kind === 'or') {
+        const plan = this.plan(operand);
+        if (plan) return plan;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns every primary key ordered by the given property, or undefined
+   * when no index leads with it.
+   */
+  async orderedKeys(property: string, descending: boolean): Promise<any[] | undefined> {
+    const index = this.indexes.find(index => index.definition.properties[0] === property);
+    if (!index) return undefined;
+
+    await this.ensureBuilt();
+    return index.ordered(descending);
+  }
+
+  private async ensureBuilt(): Promise<void> {
+    while (!this.built) {
+      if (!this.building) {
+        this.building = this.build();
+      }
+      await this.building;
+    }
+  }
+
+  private async build(): Promise<void> {
+    const version = this.version;
+    try {
+      const rows = await this.dbContext.getData(this.tableName);
+
+      // A write that raced the read may be missing from rows; try again.
+      if (version !== this.version) return;
+
+      for (const index of this.indexes) {
+        index.clear();
+        for (const row of rows) {
+          index.set(row[this.primaryKey], row);
+        }
+      }
+      this.built = true;
+    } finally {
+      this.building = undefined;
+    }
+  }
+}
+
+/**
+ * Narrows the bounds of one property from every comparison on it.
+ */
+function boundsFor(property: string, comparisons: ComparisonNode[]): [Bound | undefined, Bound | undefined] {
+  let lower: Bound | undefined;
+  let upper: Bound | undefined;
+
+  for (const comparison of comparisons) {
+    if (comparison.property !== property) continue;
+    const { op, value } = comparison;
+
+    if (op === 'eq' || op === 'gt' || op === 'gte') {
+      const bound = { value, inclusive: op !== 'gt' };
+      if (!lower || tighter(bound, lower, 1)) lower = bound;
+    }
+    if (op === 'eq' || op === 'lt' || op === 'lte') {
+      const bound = { value, inclusive: op !== 'lt' };
+      if (!upper || tighter(bound, upper, -1)) upper = bound;
+    }
+  }
+
+  return [lower, upper];
+}
+
+function admitsNull(lower: Bound, upper?: Bound): boolean {
+  const value: any = null;
+  const aboveLower = lower.inclusive ? value >= lower.value : value > lower.value;
+  const belowUpper = !upper || (upper.inclusive ? value <= upper.value : value < upper.value);
+  return aboveLower && belowUpper;
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null;
+}
+
+function tighter(candidate: Bound, current: Bound, direction: number): boolean {
+  const result = compareValues(candidate.value, current.value) * direction;
+  return result > 0 || (result === 0 && !candidate.inclusive);
+}
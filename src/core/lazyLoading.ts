@@ -0,0 +1,32 @@
+import { loadIncludes } from "../query/relations";
+
+/**
+ * An entity handed out by a context with lazyLoading enabled.
+ * `await order.$load('user')` loads the navigation on first use, through
+ * the same metadata as include(), and returns it.
+ */
+export type LazyEntity<T> = T & {
+  $load<K extends keyof T>(property: K): Promise<T[K]>;
+};
+
+/**
+ * Gives an entity a non-enumerable $load() method, so it is neither stored
+ * nor copied by spreads. Each navigation is loaded once; later calls return
+ * the value already on the entity.
+ */
+export function attachLoader(dbContext: any, entityType: Function, entity: any): void {
+  const loaded = new Set<string>();
+
+  Object.defineProperty(entity, '$load', {
+    value: async (property: string) => {
+      if (!loaded.has(property)) {
+        await loadIncludes(dbContext, entityType, [entity], [property], false);
+        loaded.add(property);
+      }
+      return entity[property];
+    },
+    enumerable: false,
+    configurable: true,
+    writable: true
+  });
+}
@@ -0,0 +1,29 @@
+import { getPersistedProperties } from "../decorators/metadata";
+
+/**
+ * Turns a stored row into an instance of its entity class so the class's
+ * getters and methods are available. A fresh instance is built even when
+ * the row already is one, so changing an entity never changes the row a
+ * provider holds.
+ */
+export function materialize<T>(entityType: new () => T, row: any): T {
+  if (row === null || row === undefined) {
+    return row;
+  }
+  return Object.assign(new entityType() as any, row);
+}
+
+/**
+ * The row a provider stores for an entity: a copy of its persisted
+ * properties, so that loaded navigations and later changes to the entity
+ * stay out of storage.
+ */
+export function toStoredRow(entityType: Function, entity: any): any {
+  const row: any = {};
+  for (const property of getPersistedProperties(entityType)) {
+    if (property in entity) {
+      row[property] = entity[property];
+    }
+  }
+  return row;
+}
@@ -0,0 +1,111 @@
+import { ForeignKeyMetadata, getForeignKeys, getPrimaryKey } from "../decorators/metadata";
+import { findRows } from "../query/relations";
+import { StorageEntity } from "../storage/storageProvider";
+import { ForeignKeyViolationError } from "./errors";
+import { toStoredRow } from "./materializer";
+import { applyColumnOptions } from "./validation";
+
+/**
+ * One change that removing an entity brings about: a row to remove, or a
+ * row whose foreign key is cleared.
+ */
+export interface DeleteChange {
+  kind: 'remove' | 'update';
+  tableName: string;
+  entityType: new () => any;
+  entity: any;
+}
+
+/**
+ * Throws a ForeignKeyViolationError when a foreign key declared with
+ * enforce: true holds a value that no related row has. Null and undefined
+ * keys are not checked.
+ */
+export async function assertReferencesExist(dbContext: any, entityType: Function, tableName: string, entity: any): Promise<void> {
+  for (const foreignKey of getForeignKeys(entityType)) {
+    const value = entity[foreignKey.propertyKey];
+    if (!foreignKey.enforce || value === undefined || value === null) continue;
+
+    const relatedType = foreignKey.relatedEntity();
+    const related = tableOf(dbContext.getEntities(), relatedType);
+    const relatedKey = foreignKey.relatedProperty || getPrimaryKey(relatedType);
+
+    const exists = relatedKey === getPrimaryKey(relatedType)
+      ? (await dbContext.getByKey(related.tableName, relatedKey, value)) !== null
+      : (await findRows(dbContext, relatedType, related.tableName, relatedKey, [value])).some(row => row[relatedKey] === value);
+
+    if (!exists) {
+      throw new ForeignKeyViolationError(tableName, foreignKey.propertyKey, related.tableName, value, 'missing');
+    }
+  }
+}
+
+/**
+ * Works out what removing an entity does under the onDelete rules of the
+ * foreign keys that reference it, following cascades. Nothing is changed
+ * here: a restrict rule throws before the caller applies any of the plan.
+ */
+export async function planDelete(dbContext: any, entityType: new () => any, tableName: string, entity: any): Promise<DeleteChange[]> {
+  const entities: StorageEntity[] = dbContext.getEntities();
+  const changes: DeleteChange[] = [];
+  const removed = new Map<string, Set<any>>();
+
+  const isRemoved = (table: string, key: any) => removed.get(table)?.has(key) || false;
+
+  const visit = async (type: new () => any, table: string, row: any): Promise<void> => {
+    const primaryKey = getPrimaryKey(type);
+    if (isRemoved(table, row[primaryKey])) return;
+
+    if (!removed.has(table)) removed.set(table, new Set());
+    removed.get(table)!.add(row[primaryKey]);
+    changes.push({ kind: 'remove', tableName: table, entityType: type, entity: row });
+
+    for (const { dependent, foreignKey } of referencing(entities, type)) {
+      const value = row[foreignKey.relatedProperty || primaryKey];
+      if (value === undefined || value === null) continue;
+
+      const dependentKey = getPrimaryKey(dependent.type);
+      const rows = (await findRows(dbContext, dependent.type, dependent.tableName, foreignKey.propertyKey, [value]))
+        .filter(candidate => candidate[foreignKey.propertyKey] === value && !isRemoved(dependent.tableName, candidate[dependentKey]));
+      if (rows.length === 0) continue;
+
+      switch (foreignKey.onDelete) {
+        case 'restrict':
+          throw new ForeignKeyViolationError(dependent.tableName, foreignKey.propertyKey, table, value, 'restricted');
+        case 'cascade':
+          for (const dependentRow of rows) {
+            await visit(dependent.type, dependent.tableName, dependentRow);
+          }
+          break;
+        case 'setNull':
+          for (const dependentRow of rows) {
+            const cleared = Object.assign(new dependent.type(), toStoredRow(dependent.type, dependentRow), { [foreignKey.propertyKey]: null });
+            applyColumnOptions(dependent.type, dependent.tableName, cleared);
+            changes.push({ kind: 'update', tableName: dependent.tableName, entityType: dependent.type, entity: cleared });
+          }
+          break;
+      }
+    }
+  };
+
+  await visit(entityType, tableName, entity);
+
+  // A row that is both cleared and removed by cascade is only removed
+  return changes.filter(change =>
+    change.kind === 'remove' || !isRemoved(change.tableName, change.entity[getPrimaryKey(change.entityType)]));
+}
+
+function referencing(entities: StorageEntity[], entityType: Function): { dependent: StorageEntity; foreignKey: ForeignKeyMetadata }[] {
+  return entities.flatMap(dependent =>
+    getForeignKeys(dependent.type)
+      .filter(foreignKey => foreignKey.onDelete && foreignKey.relatedEntity() === entityType)
+      .map(foreignKey => ({ dependent, foreignKey })));
+}
+
+function tableOf(entities: StorageEntity[], entityType: Function): StorageEntity {
+  const entity = entities.find(candidate => candidate.type === entityType);
+  if (!entity) {
+    throw new Error(`${entityType.name} is not an entity of this context`);
+  }
+  return entity;
+}
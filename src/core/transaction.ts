@@ -0,0 +1,135 @@
+import { ChangeTrackerSnapshot } from "./changeTracker";
+import type { DbContext } from "./dbContext";
+import { Serializer } from "../storage/serializer";
+
+interface Savepoint {
+  name: string;
+  changes: ChangeTrackerSnapshot;
+  tables: Map<string, any[]>;
+}
+
+/**
+ * A unit of work spanning several DbSets. Pending changes are written on
+ * commit(); rollback() restores both the change tracker and every table the
+ * transaction wrote to its state when the transaction began.
+ */
+export class DbTransaction {
+  private changes: ChangeTrackerSnapshot;
+  private tables: Map<string, any[]> = new Map();
+  private savepoints: Savepoint[] = [];
+  private savepointCounter = 0;
+  private active = true;
+  private serializer: Serializer;
+
+  constructor(
+    private dbContext: DbContext,
+    private onComplete: () => void
+  ) {
+    this.changes = this.dbContext.changeTracker.snapshot();
+    this.serializer = new Serializer(this.dbContext.getEntities());
+  }
+
+  get isActive(): boolean {
+    return this.active;
+  }
+
+  async commit(): Promise<void> {
+    this.ensureActive();
+    await this.dbContext.saveChanges();
+    this.complete();
+  }
+
+  async rollback(): Promise<void> {
+    this.ensureActive();
+    await this.restoreTables(this.tables);
+    this.dbContext.changeTracker.restore(this.changes);
+    this.dbContext.invalidateIndexes();
+    this.complete();
+  }
+
+  createSavepoint(name?: string): string {
+    this.ensureActive();
+    const savepointName = name || `sp_${++this.savepointCounter}`;
+
+    if (this.savepoints.some(sp => sp.name === savepointName)) {
+      throw new Error(`Savepoint '${savepointName}' already exists`);
+    }
+
+    this.savepoints.push({
+      name: savepointName,
+      changes: this.dbContext.changeTracker.snapshot(),
+      tables: new Map()
+    });
+    return savepointName;
+  }
+
+  /**
+   * Undoes everything done after the savepoint was created. The savepoint
+   * itself stays open; savepoints created after it are discarded.
+   */
+  async rollbackToSavepoint(name: string): Promise<void> {
+    this.ensureActive();
+    const index = this.findSavepoint(name);
+    const savepoint = this.savepoints[index];
+
+    await this.restoreTables(savepoint.tables);
+
+    this.dbContext.changeTracker.restore(savepoint.changes);
+    this.dbContext.invalidateIndexes();
+    savepoint.tables.clear();
+    this.savepoints.length = index + 1;
+  }
+
+  releaseSavepoint(name: string): void {
+    this.ensureActive();
+    const index = this.findSavepoint(name);
+    this.savepoints.length = index;
+  }
+
+  needsCapture(tableName: string): boolean {
+    return !this.tables.has(tableName) || this.savepoints.some(sp => !sp.tables.has(tableName));
+  }
+
+  /**
+   * Called by DbContext.saveChanges() before a table is written so that the
+   * transaction and each open savepoint keep the table's prior contents.
+   * Rows are copied through the serializer, so nested values such as json
+   * columns, dates and buffers are not shared with the provider.
+   */
+  captureTable(tableName: string, data: any[]): void {
+    const holders = [this.tables, ...this.savepoints.map(sp => sp.tables)];
+
+    for (const tables of holders) {
+      if (!tables.has(tableName)) {
+        tables.set(tableName, data.map(row => this.serializer.deserialize(tableName, this.serializer.serialize(tableName, row))));
+      }
+    }
+  }
+
+  private async restoreTables(tables: Map<string, any[]>): Promise<void> {
+    for (const [tableName, data] of tables) {
+      await this.dbContext.saveData(tableName, data);
+    }
+  }
+
+  private findSavepoint(name: string): number {
+    const index = this.savepoints.findIndex(sp => sp.name === name);
+    if (index === -1) {
+      throw new Error(`Savepoint '${name}' does not exist`);
+    }
+    return index;
+  }
+
+  private ensureActive(): void {
+    if (!this.active) {
+      throw new Error('Transaction has already been committed or rolled back');
+    }
+  }
+
+  private complete(): void {
+    this.active = false;
+    this.savepoints = [];
+    this.tables.clear();
+    this.onComplete();
+  }
+}
@@ -0,0 +1,87 @@
+import { ColumnType } from "../decorators/column";
+import { getColumns, getPrimaryKey } from "../decorators/metadata";
+import { PropertyValidationFailure, ValidationError } from "./errors";
+
+/**
+ * Applies the @Column options of an entity type to an entity about to be
+ * written: fills in defaults for missing values, then checks nullability and
+ * declared types. Throws a ValidationError naming every failing property.
+ */
+export function applyColumnOptions(entityType: Function, tableName: string, entity: any): void {
+  const primaryKey = getPrimaryKey(entityType);
+  const failures: PropertyValidationFailure[] = [];
+
+  for (const { propertyKey, options = {} } of getColumns(entityType)) {
+    if (entity[propertyKey] === undefined && options.default !== undefined) {
+      entity[propertyKey] = defaultValue(options.default);
+    }
+
+    const value = entity[propertyKey];
+    if (value === undefined || value === null) {
+      if (!options.nullable && propertyKey !== primaryKey) {
+        failures.push({ property: propertyKey, message: 'is required' });
+      }
+      continue;
+    }
+
+    if (options.type && !matchesType(value, options.type)) {
+      failures.push({ property: propertyKey, message: `must be of type '${options.type}'` });
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new ValidationError(tableName, failures);
+  }
+}
+
+function defaultValue(value: any): any {
+  if (typeof value === 'function') {
+    return value();
+  }
+  return cloneValue(value);
+}
+
+/**
+ * Copies a default so that entities never share it. structuredClone would do,
+ * but it needs Node 17 and the package supports Node 14.
+ */
+function cloneValue(value: any): any {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.from(value);
+  }
+  if (ArrayBuffer.isView(value)) {
+    return new (value.constructor as any)(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneValue);
+  }
+  if (value instanceof Map) {
+    return new Map(Array.from(value, ([key, item]) => [cloneValue(key), cloneValue(item)]));
+  }
+  if (value instanceof Set) {
+    return new Set(Array.from(value, cloneValue));
+  }
+  const copy: any = {};
+  for (const key of Object.keys(value)) {
+    copy[key] = cloneValue(value[key]);
+  }
+  return copy;
+}
+
+function matchesType(value: any, type: ColumnType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && !Number.isNaN(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'date': return value instanceof Date && !Number.isNaN(value.getTime());
+    case 'json': return typeof value !== 'function' && typeof value !== 'symbol';
+    case 'bigint': return typeof value === 'bigint';
+    case 'buffer': return ArrayBuffer.isView(value);
+  }
+}
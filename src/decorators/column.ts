@@ -1,12 +1,45 @@
 import 'reflect-metadata';
 
+export type ColumnType = 'string' | 'number' | 'boolean' | 'date' | 'json' | 'bigint' | 'buffer';
+
 export interface ColumnOptions {
-  type?: 'string' | 'number' | 'boolean' | 'date' | 'json';
+  type?: ColumnType;
   nullable?: boolean;
   unique?: boolean;
   default?: any;
 }
 
+export interface IndexOptions {
+  name?: string;
+  unique?: boolean;
+}
+
+/**
+ * What removing a referenced row does to the rows that reference it:
+ * remove them too, refuse the removal, or clear their foreign key.
+ */
+export type DeleteBehavior = 'cascade' | 'restrict' | 'setNull';
+
+export interface ForeignKeyOptions {
+  /** Property of the related entity the key refers to; defaults to its primary key */
+  relatedProperty?: string;
+  /** Reference navigation on this entity loaded through the key, e.g. 'user' for userId */
+  navigation?: string;
+  /** Collection navigation on the related entity listing the entities that hold the key */
+  inverse?: string;
+  /** Applied by DbSet.remove() to rows holding the removed row's key; by default they are left as they are */
+  onDelete?: DeleteBehavior;
+  /** Check on add() and update() that a set key refers to an existing row */
+  enforce?: boolean;
+}
+
+export interface ManyToManyOptions {
+  /** Property of the join entity that references the declaring entity */
+  foreignKey?: string;
+  /** Property of the join entity that references the related entity */
+  relatedForeignKey?: string;
+}
+
 export function Column(options?: ColumnOptions) {
   return function (target: any, propertyKey: string | any) {
     const columns = Reflect.getMetadata('columns', target) || [];
@@ -21,14 +54,54 @@ export function PrimaryKey() {
   };
 }
 
-export function ForeignKey(relatedEntity: () => any, relatedProperty?: string) {
+/**
+ * Marks a property as holding the key of a related entity. The second
+ * argument is either the related property the key refers to or a
+ * ForeignKeyOptions object naming the navigations on both sides.
+ */
+export function ForeignKey(relatedEntity: () => any, options?: string | ForeignKeyOptions) {
   return function (target: any, propertyKey: string | any) {
     const foreignKeys = Reflect.getMetadata('foreignKeys', target) || [];
-    foreignKeys.push({ propertyKey, relatedEntity, relatedProperty });
+    const foreignKeyOptions = typeof options === 'string' ? { relatedProperty: options } : options || {};
+    foreignKeys.push({ propertyKey, relatedEntity, ...foreignKeyOptions });
     Reflect.defineMetadata('foreignKeys', foreignKeys, target);
   };
 }
 
+/**
+ * Declares a secondary index. On a property it indexes that property; on a
+ * class it takes the list of properties for a compound index.
+ */
+export function Index(options?: IndexOptions): (target: any, propertyKey?: string | any) => void;
+export function Index(properties: string[], options?: IndexOptions): (target: any, propertyKey?: string | any) => void;
+export function Index(propertiesOrOptions?: string[] | IndexOptions, options?: IndexOptions) {
+  return function (target: any, propertyKey?: string | any) {
+    const prototype = propertyKey === undefined ? target.prototype : target;
+    const properties = Array.isArray(propertiesOrOptions) ? propertiesOrOptions : [propertyKey];
+    const indexOptions = (Array.isArray(propertiesOrOptions) ? options : propertiesOrOptions) || {};
+
+    const indexes = Reflect.getMetadata('indexes', prototype) || [];
+    indexes.push({
+      name: indexOptions.name || properties.join('_'),
+      properties,
+      unique: !!indexOptions.unique
+    });
+    Reflect.defineMetadata('indexes', indexes, prototype);
+  };
+}
+
+/**
+ * Declares a many-to-many (skip) navigation that goes through a join entity
+ * holding a @ForeignKey to each side, e.g. Product.tags through ProductTag.
+ */
+export function ManyToMany(relatedEntity: () => any, joinEntity: () => any, options: ManyToManyOptions = {}) {
+  return function (target: any, propertyKey: string | any) {
+    const navigations = Reflect.getMetadata('manyToMany', target) || [];
+    navigations.push({ propertyKey, relatedEntity, joinEntity, ...options });
+    Reflect.defineMetadata('manyToMany', navigations, target);
+  };
+}
+
 export function Table(tableName: string) {
   return function (target: any) {
     Reflect.defineMetadata('tableName', tableName, target.prototype);
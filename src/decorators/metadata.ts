@@ -0,0 +1,111 @@
+import 'reflect-metadata';
+import { ColumnOptions, ColumnType, DeleteBehavior } from './column';
+
+export interface ColumnMetadata {
+  propertyKey: string;
+  options?: ColumnOptions;
+}
+
+export interface ForeignKeyMetadata {
+  propertyKey: string;
+  relatedEntity: () => any;
+  relatedProperty?: string;
+  navigation?: string;
+  inverse?: string;
+  onDelete?: DeleteBehavior;
+  enforce?: boolean;
+}
+
+export interface ManyToManyMetadata {
+  propertyKey: string;
+  relatedEntity: () => any;
+  joinEntity: () => any;
+  foreignKey?: string;
+  relatedForeignKey?: string;
+}
+
+export interface IndexMetadata {
+  name: string;
+  properties: string[];
+  unique: boolean;
+}
+
+export function getPrimaryKey(entityType: Function): string {
+  return Reflect.getMetadata('primaryKey', entityType.prototype) || 'id';
+}
+
+export function getTableName(entityType: Function): string | undefined {
+  return Reflect.getMetadata('tableName', entityType.prototype);
+}
+
+export function getColumns(entityType: Function): ColumnMetadata[] {
+  return Reflect.getMetadata('columns', entityType.prototype) || [];
+}
+
+export function getForeignKeys(entityType: Function): ForeignKeyMetadata[] {
+  return Reflect.getMetadata('foreignKeys', entityType.prototype) || [];
+}
+
+export function getManyToMany(entityType: Function): ManyToManyMetadata[] {
+  return Reflect.getMetadata('manyToMany', entityType.prototype) || [];
+}
+
+/**
+ * Lists the @Index indexes of an entity plus a unique index for every
+ * @Column({ unique: true }) property not already covered by one.
+ */
+export function getIndexes(entityType: Function): IndexMetadata[] {
+  const indexes: IndexMetadata[] = [...(Reflect.getMetadata('indexes', entityType.prototype) || [])];
+
+  for (const column of getColumns(entityType)) {
+    const covered = indexes.some(index =>
+      index.unique && index.properties.length === 1 && index.properties[0] === column.propertyKey);
+
+    if (column.options?.unique && !covered) {
+      indexes.push({ name: `${column.propertyKey}_unique`, properties: [column.propertyKey], unique: true });
+    }
+  }
+
+  return indexes;
+}
+
+/**
+ * Resolves the storage type of a property from its @Column options, falling
+ * back to the design-time type emitted by TypeScript.
+ */
+export function getColumnType(entityType: Function, propertyKey: string): ColumnType | undefined {
+  const column = getColumns(entityType).find(c => c.propertyKey === propertyKey);
+  if (column?.options?.type) {
+    return column.options.type;
+  }
+
+  const designType = Reflect.getMetadata('design:type', entityType.prototype, propertyKey);
+  switch (designType) {
+    case String: return 'string';
+    case Number: return 'number';
+    case Boolean: return 'boolean';
+    case Date: return 'date';
+    case BigInt: return 'bigint';
+    case Buffer: return 'buffer';
+    case Object:
+    case Array: return 'json';
+    default: return undefined;
+  }
+}
+
+/**
+ * Lists every persisted property of an entity: the primary key, the
+ * @Column properties and the foreign key properties, in declaration order.
+ */
+export function getPersistedProperties(entityType: Function): string[] {
+  const properties = new Set<string>([getPrimaryKey(entityType)]);
+
+  for (const column of getColumns(entityType)) {
+    properties.add(column.propertyKey);
+  }
+  for (const foreignKey of getForeignKeys(entityType)) {
+    properties.add(foreignKey.propertyKey);
+  }
+
+  return Array.from(properties);
+}
@@ -6,6 +6,25 @@ import 'reflect-metadata';
 export { DbContext } from './core/dbContext';
 export { DbSet } from './core/dbSet';
 export { DbConfig } from './config/dbConfig';
+export { 
+  ChangeTracker, 
+  type EntityState, 
+  type TrackedEntry 
+} from './core/changeTracker';
+export { DbTransaction } from './core/transaction';
+export { type LazyEntity } from './core/lazyLoading';
+export {
+  EntityEntry,
+  ReferenceEntry,
+  CollectionEntry,
+  type EntryState
+} from './core/entityEntry';
+export { 
+  UniqueConstraintError, 
+  ValidationError, 
+  ForeignKeyViolationError,
+  type PropertyValidationFailure 
+} from './core/errors';
 
 // Decorators
 export { 
@@ -13,21 +32,48 @@ export {
   PrimaryKey, 
   ForeignKey, 
   Table,
-  type ColumnOptions 
+  Index,
+  ManyToMany,
+  type ColumnOptions,
+  type DeleteBehavior,
+  type ForeignKeyOptions,
+  type IndexOptions,
+  type ManyToManyOptions
 } from './decorators/column';
 
 // Query system
-export { Queryable } from './query/queryable';
+export {
+  Queryable,
+  OrderedQueryable,
+  IncludableQueryable,
+  type LoadTarget,
+  type NavigationTarget,
+  type QuerySource
+} from './query/queryable';
+export { type SortComparer } from './query/comparer';
+export { type EqualityComparer } from './query/equality';
+export { type Grouping } from './query/grouping';
 export { ExpressionParser } from './query/expression-parser';
+export {
+  analyzePredicate,
+  matchesPredicate,
+  type PredicateNode,
+  type ComparisonNode,
+  type ComparisonOperator
+} from './query/expressions';
 
 // Types
 export { 
   CreateEntity, 
   UpdateEntity, 
+  EntityData,
+  DataKeys,
   BaseEntity, 
   PrimaryKey as PrimaryKeyType 
 } from './types/entity.types';
 
 // Storage providers (if you want to expose them)
-export { StorageProvider } from './core/dbContext';
-export { FastStorageProvider } from './storage/fastStorageProvider';
\ No newline at end of file
+export { StorageProvider, StorageEntity } from './storage/storageProvider';
+export { FastStorageProvider } from './storage/fastStorageProvider';
+export { SqliteStorageProvider } from './storage/sqliteStorageProvider';
+export { Serializer } from './storage/serializer';
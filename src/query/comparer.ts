@@ -0,0 +1,88 @@
+/**
+ * Orders two values the way indexes and orderBy do: null and undefined
+ * first, dates by their time, everything else by < and >.
+ */
+export function compareValues(a: any, b: any): number {
+  if (a === b) return 0;
+
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  if (aMissing || bMissing) {
+    return aMissing && bMissing ? 0 : aMissing ? -1 : 1;
+  }
+
+  if (a instanceof Date) a = a.getTime();
+  if (b instanceof Date) b = b.getTime();
+
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function compareTuples(a: any[], b: any[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const result = compareValues(a[i], b[i]);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+/**
+ * A custom order for the values of one sort key: a compare function or an
+ * object with a compare method, such as an Intl.Collator.
+ */
+export type SortComparer<K> = ((a: K, b: K) => number) | { compare(a: K, b: K): number };
+
+/**
+ * The compare function for a sort key. Null and undefined stay first as in
+ * compareValues; a comparer only sees values that are present.
+ */
+export function toCompareFunction(comparer?: SortComparer<any>): (a: any, b: any) => number {
+  if (!comparer) return compareValues;
+
+  const compare = typeof comparer === 'function' ? comparer : (a: any, b: any) => comparer.compare(a, b);
+  return (a, b) => {
+    const aMissing = a === undefined || a === null;
+    const bMissing = b === undefined || b === null;
+    return aMissing || bMissing ? compareValues(a, b) : compare(a, b);
+  };
+}
+
+/**
+ * A Map key under which equal values meet: dates by their time and objects
+ * or arrays, such as composite keys `o => ({ a: o.a, b: o.b })`, by content
+ * regardless of property order. Other values are used as they are.
+ */
+export function hashKey(value: any): any {
+  if (value instanceof Date) {
+    return `$date:${value.getTime()}`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `$json:${stableStringify(value, new Set())}`;
+  }
+  return value;
+}
+
+function stableStringify(value: any, seen: Set<object>): string {
+  if (value instanceof Date) {
+    return `{"$date":${value.getTime()}}`;
+  }
+  if (typeof value === 'bigint') {
+    return `{"$bigint":"${value}"}`;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (seen.has(value)) {
+    return '"$cycle"';
+  }
+
+  seen.add(value);
+  const result = Array.isArray(value)
+    ? `[${value.map(item => stableStringify(item, seen)).join(',')}]`
+    : `{${Object.keys(value)
+        .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${stableStringify(value[key], seen)}`)
+        .join(',')}}`;
+  seen.delete(value);
+  return result;
+}
@@ -0,0 +1,50 @@
+import { hashKey } from './comparer';
+
+/**
+ * Decides which values count as the same for distinct and the set
+ * operators. Values that are equal must have the same hash; without equals,
+ * values with the same hash are equal. `{ hash: s => s.toLowerCase() }`
+ * compares strings case-insensitively.
+ */
+export interface EqualityComparer<T> {
+  hash(value: T): any;
+  equals?(a: T, b: T): boolean;
+}
+
+/**
+ * A set of values under an EqualityComparer, or under hashKey() when none
+ * is given.
+ */
+export class KeySet<T> {
+  private buckets: Map<any, T[]> = new Map();
+
+  constructor(private comparer?: EqualityComparer<T>) {}
+
+  has(value: T): boolean {
+    const bucket = this.buckets.get(this.hash(value));
+    if (!bucket) return false;
+
+    const equals = this.comparer?.equals;
+    return !equals || bucket.some(existing => equals.call(this.comparer, existing, value));
+  }
+
+  /**
+   * Adds a value and returns whether it was new.
+   */
+  add(value: T): boolean {
+    if (this.has(value)) return false;
+
+    const hash = this.hash(value);
+    const bucket = this.buckets.get(hash);
+    if (bucket) {
+      bucket.push(value);
+    } else {
+      this.buckets.set(hash, [value]);
+    }
+    return true;
+  }
+
+  private hash(value: T): any {
+    return hashKey(this.comparer ? this.comparer.hash(value) : value);
+  }
+}
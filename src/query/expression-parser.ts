@@ -1,8 +1,14 @@
+import { PredicateNode, analyzePredicate } from './expressions';
+
 export class ExpressionParser {
   static compile<T, R>(expr: (item: T) => R): (item: T) => R {
     return expr;
   }
 
+  static analyze(expr: Function, args?: any): PredicateNode | undefined {
+    return analyzePredicate(expr, args);
+  }
+
   static extractPropertyPath<T>(expr: (item: T) => any): string {
     const propertyPath: string[] = [];
     
@@ -30,6 +36,15 @@ export class ExpressionParser {
     return propertyPath.join('.');
   }
 
+  /**
+   * Recognises selectors of the form `x => x.property` and returns the
+   * property name, or undefined for anything else.
+   */
+  static extractProperty<T>(expr: (item: T) => any): string | undefined {
+    const match = expr.toString().match(/^\s*\(?\s*(\w+)\s*\)?\s*=>\s*\1\.(\w+)\s*$/);
+    return match ? match[2] : undefined;
+  }
+
   static extractPropertyPathFallback<T>(expr: (item: T) => any): string {
     const funcStr = expr.toString();
     
@@ -0,0 +1,368 @@
+import { compareValues } from './comparer';
+
+export type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * Structured form of a where() lambda. A tree produced by analyzePredicate
+ * may be looser than the lambda it came from (parts it could not read are
+ * left out of conjunctions), so consumers must treat it as a pre-filter and
+ * still run the lambda over whatever it selects.
+ */
+export type PredicateNode =
+  | { kind: 'comparison'; property: string; op: ComparisonOperator; value: any }
+  | { kind: 'and'; operands: PredicateNode[] }
+  | { kind: 'or'; operands: PredicateNode[] }
+  | { kind: 'not'; operand: PredicateNode };
+
+export type ComparisonNode = Extract<PredicateNode, { kind: 'comparison' }>;
+
+/**
+ * Tests an item against a predicate tree the way the matching lambda would:
+ * eq and ne compare dates by their time and other values with ===, and the
+ * ordering operators never match a missing value.
+ */
+export function matchesPredicate(node: PredicateNode, item: any): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.operands.every(operand => matchesPredicate(operand, item));
+    case 'or':
+      return node.operands.some(operand => matchesPredicate(operand, item));
+    case 'not':
+      return !matchesPredicate(node.operand, item);
+    case 'comparison': {
+      const value = item?.[node.property];
+      if (node.op === 'eq' || node.op === 'ne') {
+        const equal = value === node.value
+          || (value instanceof Date && node.value instanceof Date && value.getTime() === node.value.getTime());
+        return node.op === 'eq' ? equal : !equal;
+      }
+      if (value === undefined || value === null || node.value === undefined || node.value === null) {
+        return false;
+      }
+      const result = compareValues(value, node.value);
+      switch (node.op) {
+        case 'gt': return result > 0;
+        case 'gte': return result >= 0;
+        case 'lt': return result < 0;
+        case 'lte': return result <= 0;
+      }
+    }
+  }
+}
+
+interface Token {
+  type: 'identifier' | 'number' | 'string' | 'punctuator';
+  value: string;
+}
+
+interface Analysis {
+  node?: PredicateNode;
+  exact: boolean;
+}
+
+const UNKNOWN: Analysis = { exact: false };
+
+const OPERATORS: Record<string, ComparisonOperator> = {
+  '===': 'eq', '!==': 'ne', '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte'
+};
+
+const FLIPPED: Record<ComparisonOperator, ComparisonOperator> = {
+  eq: 'eq', ne: 'ne', gt: 'lt', gte: 'lte', lt: 'gt', lte: 'gte'
+};
+
+const PUNCTUATORS = [
+  '===', '!==', '=>', '>=', '<=', '&&', '||', '??', '?.', '==', '!=',
+  '(', ')', '{', '}', '[', ']', '.', ',', ';', '!', '<', '>', '?', ':', '-', '+', '*', '/', '%', '=', '&', '|'
+];
+
+/**
+ * Reads a predicate such as `u => u.age > 30 && u.status === 'active'` into
+ * a PredicateNode. Values may come from literals or from members of the
+ * lambda's second parameter, which is bound to args. Returns undefined when
+ * nothing useful could be read.
+ */
+export function analyzePredicate(fn: Function, args?: any): PredicateNode | undefined {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(fn.toString());
+  } catch {
+    return undefined;
+  }
+
+  const lambda = splitLambda(tokens);
+  if (!lambda) return undefined;
+
+  return analyzeExpression(lambda.body, lambda.item, lambda.argsName, args).node;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) {
+        throw new Error('Unterminated comment');
+      }
+      i = end + 2;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[\w$]+/.exec(source.slice(i))![0];
+      tokens.push({ type: 'identifier', value: match });
+      i += match.length;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(source[i + 1] || ''))) {
+      const match = /^(\d*\.?\d+(?:[eE][+-]?\d+)?)/.exec(source.slice(i))![0];
+      tokens.push({ type: 'number', value: match });
+      i += match.length;
+    } else if (char === '"' || char === "'") {
+      const [value, end] = readString(source, i);
+      tokens.push({ type: 'string', value });
+      i = end;
+    } else {
+      const punctuator = PUNCTUATORS.find(p => source.startsWith(p, i));
+      if (!punctuator) {
+        throw new Error(`Unsupported character '${char}'`);
+      }
+      tokens.push({ type: 'punctuator', value: punctuator });
+      i += punctuator.length;
+    }
+  }
+
+  return tokens;
+}
+
+function readString(source: string, start: number): [string, number] {
+  const quote = source[start];
+  let value = '';
+  let i = start + 1;
+
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === '\\') {
+      const next = source[i + 1];
+      if (next === 'u') {
+        value += String.fromCharCode(parseInt(source.slice(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+      value += ({ n: '\n', t: '\t', r: '\r', '0': '\0' } as Record<string, string>)[next] ?? next;
+      i += 2;
+    } else {
+      value += source[i++];
+    }
+  }
+
+  if (i >= source.length) {
+    throw new Error('Unterminated string');
+  }
+  return [value, i + 1];
+}
+
+/**
+ * Separates parameters from the body of an arrow function or function
+ * expression whose body is a single (optionally returned) expression.
+ */
+function splitLambda(tokens: Token[]): { item: string; argsName?: string; body: Token[] } | undefined {
+  let i = 0;
+  let isFunction = false;
+
+  if (tokens[i]?.value === 'function') {
+    isFunction = true;
+    i++;
+    if (tokens[i]?.type === 'identifier') i++;
+  }
+
+  const params: string[] = [];
+  if (isPunctuator(tokens[i], '(')) {
+    i++;
+    while (tokens[i] && !isPunctuator(tokens[i], ')')) {
+      if (tokens[i].type !== 'identifier') return undefined;
+      params.push(tokens[i++].value);
+      if (isPunctuator(tokens[i], ',')) i++;
+    }
+    i++;
+  } else if (!isFunction && tokens[i]?.type === 'identifier') {
+    params.push(tokens[i++].value);
+  } else {
+    return undefined;
+  }
+
+  if (!isFunction) {
+    if (!isPunctuator(tokens[i], '=>')) return undefined;
+    i++;
+  }
+
+  let body = tokens.slice(i);
+  if (isPunctuator(body[0], '{')) {
+    if (body[1]?.value !== 'return' || !isPunctuator(body[body.length - 1], '}')) return undefined;
+    body = body.slice(2, -1);
+    while (isPunctuator(body[body.length - 1], ';')) body = body.slice(0, -1);
+    if (body.some(token => isPunctuator(token, ';'))) return undefined;
+  }
+
+  if (params.length === 0 || body.length === 0) return undefined;
+  return { item: params[0], argsName: params[1], body };
+}
+
+function analyzeExpression(tokens: Token[], item: string, argsName: string | undefined, args: any): Analysis {
+  tokens = unwrap(tokens);
+
+  if (splitTopLevel(tokens, ['?', ',', '=', '??']).length > 1) {
+    return UNKNOWN;
+  }
+
+  const disjuncts = splitTopLevel(tokens, ['||']);
+  if (disjuncts.length > 1) {
+    const operands = disjuncts.map(part => analyzeExpression(part, item, argsName, args));
+    if (operands.some(operand => !operand.node)) return UNKNOWN;
+    return {
+      node: { kind: 'or', operands: operands.map(operand => operand.node!) },
+      exact: operands.every(operand => operand.exact)
+    };
+  }
+
+  const conjuncts = splitTopLevel(tokens, ['&&']);
+  if (conjuncts.length > 1) {
+    const operands = conjuncts.map(part => analyzeExpression(part, item, argsName, args));
+    const known = operands.filter(operand => operand.node).map(operand => operand.node!);
+    if (known.length === 0) return UNKNOWN;
+    return {
+      node: known.length === 1 ? known[0] : { kind: 'and', operands: known },
+      exact: operands.every(operand => operand.exact)
+    };
+  }
+
+  if (isPunctuator(tokens[0], '!') && isPunctuator(tokens[1], '(') && matchingParen(tokens, 1) === tokens.length - 1) {
+    const operand = analyzeExpression(tokens.slice(1), item, argsName, args);
+    return operand.node && operand.exact
+      ? { node: { kind: 'not', operand: operand.node }, exact: true }
+      : UNKNOWN;
+  }
+
+  return analyzeComparison(tokens, item, argsName, args);
+}
+
+function analyzeComparison(tokens: Token[], item: string, argsName: string | undefined, args: any): Analysis {
+  const index = tokens.findIndex(token => token.type === 'punctuator' && token.value in OPERATORS);
+  if (index <= 0) return UNKNOWN;
+
+  const left = readOperand(tokens.slice(0, index), item, argsName, args);
+  const right = readOperand(tokens.slice(index + 1), item, argsName, args);
+  const op = OPERATORS[tokens[index].value];
+
+  if (left?.property !== undefined && right && right.property === undefined) {
+    return { node: { kind: 'comparison', property: left.property, op, value: right.value }, exact: true };
+  }
+  if (right?.property !== undefined && left && left.property === undefined) {
+    return { node: { kind: 'comparison', property: right.property, op: FLIPPED[op], value: left.value }, exact: true };
+  }
+  return UNKNOWN;
+}
+
+/**
+ * Reads one side of a comparison: a property path on the item parameter, a
+ * member of the args parameter, or a literal.
+ */
+function readOperand(
+  tokens: Token[],
+  item: string,
+  argsName: string | undefined,
+  args: any
+): { property?: string; value?: any } | undefined {
+  tokens = unwrap(tokens);
+  if (tokens.length === 0) return undefined;
+
+  // Compiled output spells undefined as `void 0`
+  if (tokens.length === 2 && tokens[0].value === 'void' && tokens[1].value === '0') {
+    return { value: undefined };
+  }
+
+  if (tokens.length === 1 || (tokens.length === 2 && isPunctuator(tokens[0], '-'))) {
+    const token = tokens[tokens.length - 1];
+    const sign = tokens.length === 2 ? -1 : 1;
+
+    if (token.type === 'number') return { value: sign * Number(token.value) };
+    if (sign === -1) return undefined;
+    if (token.type === 'string') return { value: token.value };
+    if (token.value === 'true' || token.value === 'false') return { value: token.value === 'true' };
+    if (token.value === 'null') return { value: null };
+    if (token.value === 'undefined') return { value: undefined };
+    return undefined;
+  }
+
+  const path = readMemberPath(tokens);
+  if (!path || path.length < 2) return undefined;
+
+  if (path[0] === item) {
+    return { property: path.slice(1).join('.') };
+  }
+
+  if (argsName !== undefined && path[0] === argsName && args !== undefined && args !== null) {
+    let value = args;
+    for (const segment of path.slice(1)) {
+      if (value === undefined || value === null) return undefined;
+      value = value[segment];
+    }
+    return { value };
+  }
+
+  return undefined;
+}
+
+function readMemberPath(tokens: Token[]): string[] | undefined {
+  if (tokens.length % 2 === 0) return undefined;
+
+  const path: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const expected = i % 2 === 0 ? 'identifier' : 'punctuator';
+    if (tokens[i].type !== expected) return undefined;
+    if (expected === 'punctuator' && tokens[i].value !== '.') return undefined;
+    if (expected === 'identifier') path.push(tokens[i].value);
+  }
+  return path;
+}
+
+function splitTopLevel(tokens: Token[], separators: string[]): Token[][] {
+  const parts: Token[][] = [];
+  let depth = 0;
+  let start = 0;
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'punctuator') return;
+    if (token.value === '(' || token.value === '[' || token.value === '{') depth++;
+    else if (token.value === ')' || token.value === ']' || token.value === '}') depth--;
+    else if (depth === 0 && separators.includes(token.value)) {
+      parts.push(tokens.slice(start, i));
+      start = i + 1;
+    }
+  });
+
+  parts.push(tokens.slice(start));
+  return parts;
+}
+
+function unwrap(tokens: Token[]): Token[] {
+  while (isPunctuator(tokens[0], '(') && matchingParen(tokens, 0) === tokens.length - 1) {
+    tokens = tokens.slice(1, -1);
+  }
+  return tokens;
+}
+
+function matchingParen(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (isPunctuator(tokens[i], '(')) depth++;
+    else if (isPunctuator(tokens[i], ')') && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function isPunctuator(token: Token | undefined, value: string): boolean {
+  return token?.type === 'punctuator' && token.value === value;
+}
@@ -0,0 +1,151 @@
+import { hashKey } from './comparer';
+
+/**
+ * One group of a groupBy() query. Aggregates may be called anywhere,
+ * including in branches of a where, orderBy or select and with values the
+ * selector captures. A group answers them from running totals for the
+ * selectors declared to groupBy(), and from its rows otherwise.
+ */
+export interface Grouping<K, T> {
+  readonly key: K;
+  count(predicate?: (item: T) => boolean): number;
+  sum(selector: (item: T) => number): number;
+  average(selector: (item: T) => number): number;
+  min(selector: (item: T) => number): number;
+  max(selector: (item: T) => number): number;
+  /** The rows of the group */
+  toArray(): T[];
+}
+
+interface RunningTotal {
+  matches: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+export class RowGroup<K, T> implements Grouping<K, T> {
+  private size = 0;
+  private items?: T[];
+  private totals?: Map<Function, RunningTotal>;
+
+  /**
+   * Without aggregates the group keeps its rows. With them it keeps one
+   * running total per selector instead, and only those selectors can be
+   * aggregated.
+   */
+  constructor(readonly key: K, aggregates?: ((item: T) => any)[]) {
+    if (aggregates) {
+      this.totals = new Map(aggregates.map(selector => [selector, { matches: 0, sum: 0, min: Infinity, max: -Infinity }]));
+    } else {
+      this.items = [];
+    }
+  }
+
+  add(item: T): void {
+    this.size++;
+    if (this.items) {
+      this.items.push(item);
+      return;
+    }
+    for (const [selector, total] of this.totals!) {
+      const value = selector(item);
+      if (value) total.matches++;
+      total.sum += value;
+      if (value < total.min) total.min = value;
+      if (value > total.max) total.max = value;
+    }
+  }
+
+  count(predicate?: (item: T) => boolean): number {
+    if (!predicate) {
+      return this.size;
+    }
+    const total = this.totals?.get(predicate);
+    if (total) {
+      return total.matches;
+    }
+    let count = 0;
+    for (const item of this.rows()) {
+      if (predicate(item)) count++;
+    }
+    return count;
+  }
+
+  sum(selector: (item: T) => number): number {
+    const total = this.totals?.get(selector);
+    if (total) {
+      return total.sum;
+    }
+    let sum = 0;
+    for (const item of this.rows()) {
+      sum += selector(item);
+    }
+    return sum;
+  }
+
+  average(selector: (item: T) => number): number {
+    return this.size === 0 ? 0 : this.sum(selector) / this.size;
+  }
+
+  min(selector: (item: T) => number): number {
+    const total = this.totals?.get(selector);
+    if (total) {
+      return total.min;
+    }
+    let min = Infinity;
+    for (const item of this.rows()) {
+      const value = selector(item);
+      if (value < min) min = value;
+    }
+    return min;
+  }
+
+  max(selector: (item: T) => number): number {
+    const total = this.totals?.get(selector);
+    if (total) {
+      return total.max;
+    }
+    let max = -Infinity;
+    for (const item of this.rows()) {
+      const value = selector(item);
+      if (value > max) max = value;
+    }
+    return max;
+  }
+
+  toArray(): T[] {
+    return [...this.rows()];
+  }
+
+  private rows(): T[] {
+    if (!this.items) {
+      throw new Error('This group keeps running totals instead of its rows; pass the selector to groupBy() in its aggregates');
+    }
+    return this.items;
+  }
+}
+
+/**
+ * Reads rows into groups by key as they arrive. Keys are compared by
+ * hashKey(), so dates and composite object keys group by value. Groups come
+ * in the order their first row was seen.
+ */
+export async function groupRows<K, T>(
+  rows: AsyncIterable<T>,
+  keySelector: (item: T) => K,
+  aggregates?: ((item: T) => any)[]
+): Promise<RowGroup<K, T>[]> {
+  const groups = new Map<any, RowGroup<K, T>>();
+  for await (const row of rows) {
+    const key = keySelector(row);
+    const hash = hashKey(key);
+    let group = groups.get(hash);
+    if (!group) {
+      group = new RowGroup(key, aggregates);
+      groups.set(hash, group);
+    }
+    group.add(row);
+  }
+  return Array.from(groups.values());
+}
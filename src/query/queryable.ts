@@ -1,24 +1,122 @@
 import { ExpressionParser } from './expression-parser';
+import { SortComparer, compareValues, hashKey, toCompareFunction } from './comparer';
+import { PredicateNode, matchesPredicate } from './expressions';
+import { EqualityComparer, KeySet } from './equality';
+import { Grouping, groupRows } from './grouping';
+import { IndexManager } from '../core/indexManager';
+import { ChangeTracker } from '../core/changeTracker';
+import { applyColumnOptions } from '../core/validation';
+import { assertReferencesExist, planDelete } from '../core/referentialIntegrity';
+import { loadIncludes } from './relations';
+import { getPrimaryKey } from '../decorators/metadata';
+import type { DbSet } from '../core/dbSet';
+import { EntityData } from '../types/entity.types';
+
+/**
+ * The element type reached through a navigation: the item type of a
+ * collection, or the referenced type itself.
+ */
+export type NavigationTarget<P> = NonNullable<P> extends readonly (infer E)[] ? E : NonNullable<P>;
+
+/**
+ * The navigation that load() fills: a property of the entity whose entry()
+ * built the query, holding either the results or only the first of them.
+ */
+export interface LoadTarget {
+  entity: any;
+  property: string;
+  single: boolean;
+}
+
+/**
+ * Another set of rows to combine with a query: a DbSet or a Queryable.
+ */
+export type QuerySource<T> = Queryable<T> | DbSet<T>;
+
+// Rows per include lookup when a query with includes is streamed
+const STREAM_INCLUDE_BATCH = 100;
+
+interface SortKey<T> {
+  extractor: (item: T) => any;
+  desc: boolean;
+  compare: (a: any, b: any) => number;
+  /** Set when the key is a plain property without a comparer, so an index can order it */
+  property?: string;
+}
 
 export class Queryable<T> {
   private filters: ((item: T) => boolean)[] = [];
-  private sortKeys: { extractor: (item: T) => any; desc: boolean }[] = [];
+  private predicates: PredicateNode[] = [];
+  private sortKeys: SortKey<T>[] = [];
   private skipCount = 0;
   private takeCount?: number;
   private includeRelations: string[] = [];
   private selectFields?: string[];
   private projection?: (item: T) => any;
+  private plain = false;
+  private source?: () => Promise<T[]>;
 
+  /**
+   * The entity type gives the class rows are materialized as and the table's
+   * metadata. A query over rows produced in code passes Object, since its
+   * rows are not entities.
+   */
   constructor(
     private dbContext: any,
-    private entityType: new () => T,
-    private tableName: string
+    private entityType: new () => unknown,
+    private tableName: string,
+    private loadTarget?: LoadTarget
   ) {}
 
-  where(predicate: (item: T) => boolean): Queryable<T> {
+  /**
+   * Filters the query. Values the predicate needs from outside can be passed
+   * as args and read through its second parameter, which lets the predicate
+   * be analyzed for index and provider use:
+   * `where((u, p) => u.age > p.minAge, { minAge: 30 })`. A PredicateNode
+   * built in code is applied as it is.
+   */
+  where(predicate: (item: T) => boolean): Queryable<T>;
+  where<A>(predicate: (item: T, args: A) => boolean, args: A): Queryable<T>;
+  where(predicate: PredicateNode): Queryable<T>;
+  where(predicate: ((item: T, args?: any) => boolean) | PredicateNode, args?: any): Queryable<T> {
     const newQuery = this.clone();
-    const compiled = ExpressionParser.compile(predicate);
-    newQuery.filters.push(compiled);
+    if (typeof predicate !== 'function') {
+      newQuery.filters.push(item => matchesPredicate(predicate, item));
+      newQuery.predicates.push(predicate);
+      return newQuery;
+    }
+
+    newQuery.filters.push(ExpressionParser.compile((item: T) => predicate(item, args)));
+
+    const analyzed = ExpressionParser.analyze(predicate, args);
+    if (analyzed) {
+      newQuery.predicates.push(analyzed);
+    }
+    return newQuery;
+  }
+
+  /**
+   * Keeps items whose selected value lies within [min, max], inclusive.
+   * Uses an index when the selector is a plain indexed property.
+   */
+  between(selector: (item: T) => any, min: any, max: any): Queryable<T> {
+    const newQuery = this.clone();
+    const extractor = ExpressionParser.compile(selector);
+    newQuery.filters.push(item => {
+      const value = extractor(item);
+      return compareValues(value, min) >= 0 && compareValues(value, max) <= 0;
+    });
+
+    const property = ExpressionParser.extractProperty(selector);
+    if (property) {
+      newQuery.predicates.push({
+        kind: 'and',
+        operands: [
+          { kind: 'comparison', property, op: 'gte', value: min },
+          { kind: 'comparison', property, op: 'lte', value: max }
+        ]
+      });
+    }
     return newQuery;
   }
 
@@ -28,17 +126,144 @@ export class Queryable<T> {
     return newQuery;
   }
 
-  orderBy(selector: (item: T) => any): Queryable<T> {
-    const newQuery = this.clone();
-    const extractor = ExpressionParser.compile(selector);
-    newQuery.sortKeys.push({ extractor, desc: false });
-    return newQuery;
+  /**
+   * Pairs each item with the inner rows whose key equals its key, through a
+   * hash of the inner rows. Items and rows with a null or undefined key are
+   * left out; dates and composite object keys match by value. Results come
+   * in the order of this query.
+   */
+  join<I, K, R>(
+    inner: QuerySource<I>,
+    outerKey: (item: T) => K,
+    innerKey: (row: I) => K,
+    resultSelector: (item: T, row: I) => R
+  ): Queryable<R> {
+    return Queryable.fromSource(this.dbContext, async () => {
+      const lookup = await readLookup(inner, innerKey);
+      const results: R[] = [];
+      for (const item of await this.toArray()) {
+        for (const row of lookup.get(keyOf(outerKey(item))) || []) {
+          results.push(resultSelector(item, row));
+        }
+      }
+      return results;
+    });
   }
 
-  orderByDescending(selector: (item: T) => any): Queryable<T> {
-    const newQuery = this.clone();
-    const extractor = ExpressionParser.compile(selector);
-    newQuery.sortKeys.push({ extractor, desc: true });
+  /**
+   * Like join(), but gives every item once with all of its matching inner
+   * rows, which may be none.
+   */
+  groupJoin<I, K, R>(
+    inner: QuerySource<I>,
+    outerKey: (item: T) => K,
+    innerKey: (row: I) => K,
+    resultSelector: (item: T, rows: I[]) => R
+  ): Queryable<R> {
+    return Queryable.fromSource(this.dbContext, async () => {
+      const lookup = await readLookup(inner, innerKey);
+      return (await this.toArray()).map(item => resultSelector(item, lookup.get(keyOf(outerKey(item))) || []));
+    });
+  }
+
+  /**
+   * Flattens a collection of each item, such as a loaded navigation or a
+   * query built from the item, into one sequence. A query is run once per
+   * item, so a join is the better choice for large inputs.
+   */
+  selectMany<C>(collectionSelector: (item: T) => Iterable<C> | QuerySource<C> | null | undefined): Queryable<C>;
+  selectMany<C, R>(
+    collectionSelector: (item: T) => Iterable<C> | QuerySource<C> | null | undefined,
+    resultSelector: (item: T, child: C) => R
+  ): Queryable<R>;
+  selectMany(
+    collectionSelector: (item: T) => Iterable<any> | QuerySource<any> | null | undefined,
+    resultSelector?: (item: T, child: any) => any
+  ): Queryable<any> {
+    return Queryable.fromSource(this.dbContext, async () => {
+      const results: any[] = [];
+      for (const item of await this.toArray()) {
+        const collection = collectionSelector(item);
+        if (collection === null || collection === undefined) continue;
+
+        const children = isQuerySource(collection) ? await asQueryable(collection).toArray() : collection;
+        for (const child of children) {
+          results.push(resultSelector ? resultSelector(item, child) : child);
+        }
+      }
+      return results;
+    });
+  }
+
+  /**
+   * The items of this query followed by those of the other, duplicates
+   * included.
+   */
+  concat(other: QuerySource<T>): Queryable<T> {
+    return Queryable.fromSource(this.dbContext, async () =>
+      (await this.toArray()).concat(await asQueryable(other).toArray()));
+  }
+
+  /**
+   * The distinct items of this query and the other, in that order. Like
+   * distinct(), entities are compared by primary key when both queries read
+   * the same table, and by content otherwise, unless a comparer is given.
+   */
+  union(other: QuerySource<T>, comparer?: EqualityComparer<T>): Queryable<T> {
+    return Queryable.fromSource(this.dbContext, async () => {
+      const seen = this.keySet(comparer, asQueryable(other));
+      return (await this.toArray()).concat(await asQueryable(other).toArray()).filter(item => seen.add(item));
+    });
+  }
+
+  /**
+   * The distinct items of this query that the other also has.
+   */
+  intersect(other: QuerySource<T>, comparer?: EqualityComparer<T>): Queryable<T> {
+    return this.filterAgainst(other, true, comparer);
+  }
+
+  /**
+   * The distinct items of this query that the other does not have.
+   */
+  except(other: QuerySource<T>, comparer?: EqualityComparer<T>): Queryable<T> {
+    return this.filterAgainst(other, false, comparer);
+  }
+
+  /**
+   * Keeps the first item for each distinct key. Keys are compared like join
+   * keys, dates by time and objects by content, unless a comparer is given.
+   */
+  distinctBy<K>(keySelector: (item: T) => K, comparer?: EqualityComparer<K>): Queryable<T> {
+    return Queryable.fromSource(this.dbContext, async () => {
+      const seen = new KeySet<K>(comparer);
+      return (await this.toArray()).filter(item => seen.add(keySelector(item)));
+    });
+  }
+
+  /**
+   * Sorts by a key. Keys apply in the order they are added, so a later
+   * orderBy() or thenBy() only breaks ties of the earlier ones. Null and
+   * undefined sort first and dates by their time; a comparer such as
+   * `new Intl.Collator('en', { sensitivity: 'base' })` sets the order of
+   * other values.
+   */
+  orderBy<K>(selector: (item: T) => K, comparer?: SortComparer<K>): OrderedQueryable<T> {
+    return this.addSortKey(selector, false, comparer);
+  }
+
+  orderByDescending<K>(selector: (item: T) => K, comparer?: SortComparer<K>): OrderedQueryable<T> {
+    return this.addSortKey(selector, true, comparer);
+  }
+
+  protected addSortKey<K>(selector: (item: T) => K, desc: boolean, comparer?: SortComparer<K>): OrderedQueryable<T> {
+    const newQuery = this.clone(new OrderedQueryable<T>(this.dbContext, this.entityType, this.tableName));
+    newQuery.sortKeys.push({
+      extractor: ExpressionParser.compile(selector),
+      desc,
+      compare: toCompareFunction(comparer),
+      property: comparer ? undefined : ExpressionParser.extractProperty(selector)
+    });
     return newQuery;
   }
 
@@ -54,28 +279,56 @@ export class Queryable<T> {
     return newQuery;
   }
 
-  include(selector: (item: T) => any): Queryable<T> {
-    const newQuery = this.clone();
+  include<P>(selector: (item: T) => P): IncludableQueryable<T, P> {
+    const newQuery = this.clone(new IncludableQueryable<T, P>(this.dbContext, this.entityType, this.tableName));
     const relation = ExpressionParser.extractPropertyPath(selector);
     newQuery.includeRelations.push(relation);
     return newQuery;
   }
 
+  /**
+   * Extends the last include path with a navigation of the entities it
+   * loads.
+   */
+  protected includeNested<Q>(selector: (item: any) => Q): IncludableQueryable<T, Q> {
+    const newQuery = this.clone(new IncludableQueryable<T, Q>(this.dbContext, this.entityType, this.tableName));
+    const parent = newQuery.includeRelations[newQuery.includeRelations.length - 1];
+    newQuery.includeRelations.push(`${parent}.${ExpressionParser.extractPropertyPath(selector)}`);
+    return newQuery;
+  }
+
+  /**
+   * Returns rows as stored instead of as instances of the entity class,
+   * skipping the copy into a new instance. Filters and selectors then see
+   * plain objects without the class's getters and methods.
+   */
+  asPlain(): Queryable<T> {
+    const newQuery = this.clone();
+    newQuery.plain = true;
+    return newQuery;
+  }
+
   async toArray(): Promise<T[]> {
-    let results = await this.dbContext.getData(this.tableName);
-    
-    for (const filter of this.filters) {
-      results = results.filter(filter);
-    }
-    
-    // Apply sorting
-    for (const sort of this.sortKeys) {
-      results.sort((a: any, b: any) => {
-        const aVal = sort.extractor(a);
-        const bVal = sort.extractor(b);
-        const result = aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
-        return sort.desc ? -result : result;
-      });
+    let results: T[];
+    const indexes: IndexManager | undefined = this.source ? undefined : this.dbContext.getIndexManager(this.tableName);
+    const predicate = this.predicate;
+    const keys = await indexes?.lookup(predicate);
+    const ordered = indexes && !keys ? await this.loadOrdered(indexes) : undefined;
+
+    if (ordered) {
+      results = ordered;
+    } else {
+      results = this.source
+        ? await this.source()
+        : (await this.loadCandidates(predicate, keys)).map(row => this.hydrate(row));
+
+      for (const filter of this.filters) {
+        results = results.filter(filter);
+      }
+
+      if (this.sortKeys.length > 0) {
+        results = this.sort(results);
+      }
     }
     
     // Apply skip/take
@@ -86,22 +339,104 @@ export class Queryable<T> {
       results = results.slice(0, this.takeCount);
     }
     
-    // Load relations
-    if (this.includeRelations.length > 0) {
-      results = await this.loadRelations(results);
+    return this.complete(results);
+  }
+
+  /**
+   * Yields results one at a time: `for await (const order of db.orders.where(...))`.
+   * A query without sorting reads its table row by row, so it stops reading
+   * once take() is satisfied or the loop is left. Sorted, grouped and
+   * joined queries need every row first and yield what toArray() returns.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    if (this.source || this.sortKeys.length > 0) {
+      yield* await this.toArray();
+      return;
     }
-    
-    // Apply projection
-    if (this.projection) {
-      results = results.map(this.projection);
+    if (this.takeCount === 0) return;
+
+    // Includes are loaded for a batch of rows at a time
+    const batchSize = this.includeRelations.length > 0 ? STREAM_INCLUDE_BATCH : 1;
+    let batch: T[] = [];
+    let skipped = 0;
+    let taken = 0;
+
+    for await (const row of this.scanCandidates()) {
+      const item = this.hydrate(row);
+      if (!this.filters.every(filter => filter(item))) continue;
+      if (skipped < this.skipCount) {
+        skipped++;
+        continue;
+      }
+
+      batch.push(item);
+      const done = ++taken === this.takeCount;
+      if (batch.length === batchSize || done) {
+        yield* await this.complete(batch);
+        batch = [];
+      }
+      if (done) return;
+    }
+
+    if (batch.length > 0) {
+      yield* await this.complete(batch);
+    }
+  }
+
+  /**
+   * Runs an action for each result as it is read, waiting for any promise
+   * it returns. Returning false stops the query.
+   */
+  async forEachAsync(action: (item: T, index: number) => unknown): Promise<void> {
+    let index = 0;
+    for await (const item of this) {
+      if ((await action(item, index++)) === false) break;
+    }
+  }
+
+  /**
+   * Yields the results in arrays of up to size items:
+   * `for await (const batch of db.orders.chunk(500))`.
+   */
+  chunk(size: number): AsyncIterable<T[]> {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Chunk size must be a positive integer, got ${size}`);
+    }
+    return this.chunks(size);
+  }
+
+  private async *chunks(size: number): AsyncGenerator<T[]> {
+    let batch: T[] = [];
+    for await (const item of this) {
+      batch.push(item);
+      if (batch.length === size) {
+        yield batch;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      yield batch;
+    }
+  }
+
+  /**
+   * Runs the query and returns its results. A query built by entry() for a
+   * navigation also assigns them to that navigation, replacing what it held.
+   */
+  async load(): Promise<T[]> {
+    const results = await this.toArray();
+    if (this.loadTarget) {
+      const { entity, property, single } = this.loadTarget;
+      entity[property] = single ? results[0] : results;
     }
-    
     return results;
   }
 
   async first(): Promise<T | null> {
-    const results = await this.take(1).toArray();
-    return results[0] || null;
+    for await (const item of this.take(1)) {
+      return item;
+    }
+    return null;
   }
 
   async firstOrDefault(defaultValue: T): Promise<T> {
@@ -110,61 +445,146 @@ export class Queryable<T> {
   }
 
   async single(): Promise<T> {
-    const results = await this.toArray();
+    const results: T[] = [];
+    for await (const item of this.take(2)) {
+      results.push(item);
+    }
     if (results.length !== 1) {
       throw new Error('Sequence contains more than one element');
     }
     return results[0];
   }
 
+  /**
+   * Counts the results without sorting, including or projecting them.
+   */
   async count(): Promise<number> {
-    const results = await this.toArray();
-    return results.length;
+    let count = 0;
+    for await (const _ of this.forScan(false)) {
+      count++;
+    }
+    return count;
   }
 
+  /**
+   * Stops at the first matching result. A predicate is applied as a where()
+   * filter, so it can use an index, unless the query pages, includes or
+   * projects; then it is tested against each result as it is read.
+   */
   async any(predicate?: (item: T) => boolean): Promise<boolean> {
-    if (predicate) {
-      const results = await this.where(predicate).toArray();
-      return results.length > 0;
+    if (!predicate) {
+      for await (const _ of this.forScan(false).take(1)) {
+        return true;
+      }
+      return false;
     }
-    const results = await this.toArray();
-    return results.length > 0;
+
+    const paged = this.skipCount > 0 || this.takeCount !== undefined;
+    if (!paged && !this.projection && this.includeRelations.length === 0) {
+      for await (const _ of this.forScan(false).where(predicate).take(1)) {
+        return true;
+      }
+      return false;
+    }
+
+    const compiled = ExpressionParser.compile(predicate);
+    for await (const item of this.forScan(true)) {
+      if (compiled(item)) return true;
+    }
+    return false;
   }
 
+  /**
+   * Stops at the first result that fails the predicate.
+   */
   async all(predicate: (item: T) => boolean): Promise<boolean> {
     const compiled = ExpressionParser.compile(predicate);
-    const results = await this.toArray();
-    return results.every(compiled);
+    for await (const item of this.forScan(true)) {
+      if (!compiled(item)) return false;
+    }
+    return true;
   }
 
   async sum(selector: (item: T) => number): Promise<number> {
     const compiled = ExpressionParser.compile(selector);
-    const results = await this.toArray();
-    return results.reduce((sum, item) => sum + compiled(item), 0);
+    let sum = 0;
+    for await (const item of this.forScan(true)) {
+      sum += compiled(item);
+    }
+    return sum;
   }
 
   async average(selector: (item: T) => number): Promise<number> {
     const compiled = ExpressionParser.compile(selector);
-    const results = await this.toArray();
-    if (results.length === 0) return 0;
-    return results.reduce((sum, item) => sum + compiled(item), 0) / results.length;
+    let sum = 0;
+    let count = 0;
+    for await (const item of this.forScan(true)) {
+      sum += compiled(item);
+      count++;
+    }
+    return count === 0 ? 0 : sum / count;
   }
 
   async min(selector: (item: T) => number): Promise<number> {
-    const compiled = ExpressionParser.compile(selector);
-    const results = await this.toArray();
-    if (results.length === 0) throw new Error('Sequence contains no elements');
-    return Math.min(...results.map(compiled));
+    return this.extreme(selector, (value, current) => value < current);
   }
 
   async max(selector: (item: T) => number): Promise<number> {
+    return this.extreme(selector, (value, current) => value > current);
+  }
+
+  /**
+   * The selected value that beats every other, found in one pass. An empty
+   * sequence has none and throws, as min() and max() always have.
+   */
+  private async extreme(selector: (item: T) => number, beats: (value: number, current: number) => boolean): Promise<number> {
     const compiled = ExpressionParser.compile(selector);
-    const results = await this.toArray();
-    if (results.length === 0) throw new Error('Sequence contains no elements');
-    return Math.max(...results.map(compiled));
+    let result: number | undefined;
+    for await (const item of this.forScan(true)) {
+      const value = compiled(item);
+      if (result === undefined || beats(value, result)) {
+        result = value;
+      }
+    }
+    if (result === undefined) throw new Error('Sequence contains no elements');
+    return result;
   }
 
-  async groupBy<K>(keySelector: (item: T) => K): Promise<Map<K, T[]>> {
+  /**
+   * This query as a terminal operator reads it: without the sort unless
+   * rows are skipped or taken, since order cannot change the outcome, and
+   * without includes and projection unless the operator looks at results.
+   */
+  private forScan(keepResults: boolean): Queryable<T> {
+    const query = this.clone();
+    if (query.skipCount === 0 && query.takeCount === undefined) {
+      query.sortKeys = [];
+    }
+    if (!keepResults) {
+      query.includeRelations = [];
+      query.projection = undefined;
+    }
+    return query;
+  }
+
+  /**
+   * Groups items by key into a query of groupings that can be filtered,
+   * sorted, paged and projected like any other:
+   * `groupBy(o => o.userId).where(g => g.count() > 1).select(g => ({ user: g.key, total: g.sum(o => o.totalAmount) }))`.
+   * Each group holds its rows, unless the selectors and predicates its
+   * aggregates will be called with are passed as aggregates: then each group
+   * keeps a running total per selector instead, and memory grows with the
+   * number of groups rather than rows.
+   */
+  groupBy<K>(keySelector: (item: T) => K, aggregates?: ((item: T) => any)[]): Queryable<Grouping<K, T>> {
+    const compiled = ExpressionParser.compile(keySelector);
+    return Queryable.fromSource<Grouping<K, T>>(this.dbContext, () => groupRows(this, compiled, aggregates));
+  }
+
+  /**
+   * Reads the items into a Map from each key to its items.
+   */
+  async toLookup<K>(keySelector: (item: T) => K): Promise<Map<K, T[]>> {
     const compiled = ExpressionParser.compile(keySelector);
     const results = await this.toArray();
     const groups = new Map<K, T[]>();
@@ -180,42 +600,329 @@ export class Queryable<T> {
     return groups;
   }
 
-  async distinct(): Promise<T[]> {
-    const results = await this.toArray();
-    return Array.from(new Set(results.map(item => JSON.stringify(item))))
-      .map(str => JSON.parse(str));
+  /**
+   * The first of each set of equal items. Entities are compared by primary
+   * key, and projected or joined rows by content, unless a comparer is
+   * given.
+   */
+  async distinct(comparer?: EqualityComparer<T>): Promise<T[]> {
+    const seen = this.keySet(comparer);
+    return (await this.toArray()).filter(item => seen.add(item));
+  }
+
+  /**
+   * Sets properties on every row the query selects and writes them all in
+   * one storage write, without loading them into the change tracker:
+   * `db.users.where(u => !u.isActive).executeUpdate(u => ({ role: 'archived' }))`.
+   * Each updated row is validated and checked against enforced foreign keys
+   * and unique indexes, including the other rows of the update, before
+   * anything is written. Returns the number of rows updated. Entities
+   * already read from the context keep their old values.
+   */
+  async executeUpdate(setter: (item: T) => Partial<EntityData<T>>): Promise<number> {
+    const rows = await this.rowsToExecute('executeUpdate');
+    const primaryKey = getPrimaryKey(this.entityType);
+    const indexes: IndexManager | undefined = this.dbContext.getIndexManager(this.tableName);
+    const batch = new ChangeTracker();
+
+    try {
+      for (const row of rows) {
+        const entity = Object.assign(new this.entityType() as any, row, setter(row));
+        if (entity[primaryKey] !== (row as any)[primaryKey]) {
+          throw new Error('executeUpdate() cannot change the primary key');
+        }
+
+        applyColumnOptions(this.entityType, this.tableName, entity);
+        await assertReferencesExist(this.dbContext, this.entityType, this.tableName, entity);
+        await indexes?.assertUnique(entity);
+        indexes?.track(entity);
+        batch.modify(this.tableName, primaryKey, entity);
+      }
+
+      await this.dbContext.executeBatch(batch);
+    } catch (error) {
+      indexes?.invalidate();
+      throw error;
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Removes every row the query selects in one storage write, without
+   * loading them into the change tracker, and applies the onDelete rules of
+   * the foreign keys that reference them. If a restrict rule is violated
+   * nothing is removed. Returns the number of rows the query selected;
+   * cascaded rows are not counted.
+   */
+  async executeDelete(): Promise<number> {
+    const rows = await this.rowsToExecute('executeDelete');
+    const batch = new ChangeTracker();
+
+    for (const row of rows) {
+      for (const change of await planDelete(this.dbContext, this.entityType, this.tableName, row)) {
+        const primaryKey = getPrimaryKey(change.entityType);
+        if (change.kind === 'remove') {
+          batch.remove(change.tableName, primaryKey, change.entity);
+        } else if (batch.getEntry(change.tableName, change.entity[primaryKey])?.state !== 'Deleted') {
+          batch.modify(change.tableName, primaryKey, change.entity);
+        }
+      }
+    }
+
+    if (rows.length > 0) {
+      await this.dbContext.executeBatch(batch);
+    }
+    return rows.length;
   }
 
-  private clone(): Queryable<T> {
-    const newQuery = new Queryable(this.dbContext, this.entityType, this.tableName);
+  /**
+   * The stored rows a bulk operation applies to: the query's rows without
+   * includes or projection, which only a query over a table has.
+   */
+  private async rowsToExecute(operation: string): Promise<T[]> {
+    if (this.source) {
+      throw new Error(`${operation}() needs a query over a table, not a joined, grouped or combined one`);
+    }
+    return this.forScan(false).toArray();
+  }
+
+  /**
+   * A KeySet for items of this query, and of the other when given: the
+   * comparer, or else primary keys for entity rows of one table and content
+   * for anything else, such as rows of two tables whose keys may overlap.
+   */
+  private keySet(comparer?: EqualityComparer<T>, other?: Queryable<T>): KeySet<T> {
+    if (comparer || !this.readsEntities || (other && !this.readsSameTable(other))) {
+      return new KeySet<T>(comparer);
+    }
+    const primaryKey = getPrimaryKey(this.entityType);
+    return new KeySet<T>({ hash: (item: any) => item?.[primaryKey] });
+  }
+
+  private get readsEntities(): boolean {
+    return !this.source && !this.projection;
+  }
+
+  private readsSameTable(other: Queryable<T>): boolean {
+    return other.readsEntities && other.entityType === this.entityType && other.tableName === this.tableName;
+  }
+
+  private filterAgainst(other: QuerySource<T>, keep: boolean, comparer?: EqualityComparer<T>): Queryable<T> {
+    return Queryable.fromSource(this.dbContext, async () => {
+      const query = asQueryable(other);
+      const others = this.keySet(comparer, query);
+      for (const item of await query.toArray()) {
+        others.add(item);
+      }
+      const seen = this.keySet(comparer, query);
+      return (await this.toArray()).filter(item => others.has(item) === keep && seen.add(item));
+    });
+  }
+
+  /**
+   * The analyzed where() and between() filters combined, if any.
+   */
+  private get predicate(): PredicateNode | undefined {
+    if (this.predicates.length <= 1) {
+      return this.predicates[0];
+    }
+    return { kind: 'and', operands: this.predicates };
+  }
+
+  /**
+   * Loads includes onto results and applies the projection.
+   */
+  private async complete(results: T[]): Promise<any[]> {
+    if (this.includeRelations.length > 0) {
+      results = await this.loadRelations(results);
+    }
+    return this.projection ? results.map(this.projection) : results;
+  }
+
+  /**
+   * Yields the rows a streaming query filters: the rows an index selects,
+   * or the table through DbContext.scanData().
+   */
+  private async *scanCandidates(): AsyncGenerator<any> {
+    const primaryKey = getPrimaryKey(this.entityType);
+    const predicate = this.predicate;
+    const indexes: IndexManager | undefined = this.dbContext.getIndexManager(this.tableName);
+    const keys = await indexes?.lookup(predicate);
+
+    if (!keys) {
+      yield* this.dbContext.scanData(this.tableName, primaryKey, predicate);
+      return;
+    }
+    for (const key of keys) {
+      const row = await this.dbContext.getByKey(this.tableName, primaryKey, key);
+      if (row !== null) yield row;
+    }
+  }
+
+  /**
+   * Reads the rows the filters will run over: the rows an index selects,
+   * the rows the storage provider returns for the predicate, or the whole
+   * table.
+   */
+  private async loadCandidates(predicate?: PredicateNode, keys?: any[]): Promise<T[]> {
+    const primaryKey = getPrimaryKey(this.entityType);
+    if (!keys) {
+      return predicate
+        ? this.dbContext.getDataWhere(this.tableName, primaryKey, predicate)
+        : this.dbContext.getData(this.tableName);
+    }
+
+    const rows = await Promise.all(keys.map(key => this.dbContext.getByKey(this.tableName, primaryKey, key)));
+    return rows.filter(row => row !== null);
+  }
+
+  /**
+   * Produces filtered rows already in order when the query sorts by a single
+   * indexed property. With take(), rows are read in index order only until
+   * enough of them match.
+   */
+  private async loadOrdered(indexes: IndexManager): Promise<T[] | undefined> {
+    const sort = this.sortKeys[0];
+    if (this.sortKeys.length !== 1 || !sort.property) return undefined;
+
+    const keys = await indexes.orderedKeys(sort.property, sort.desc);
+    if (!keys) return undefined;
+
+    const primaryKey = getPrimaryKey(this.entityType);
+    const matches = (row: T) => this.filters.every(filter => filter(row));
+    const results: T[] = [];
+
+    if (this.takeCount === undefined) {
+      const rows = new Map<any, T>();
+      for (const row of await this.dbContext.getData(this.tableName)) {
+        rows.set(row[primaryKey], this.hydrate(row));
+      }
+      for (const key of keys) {
+        const row = rows.get(key);
+        if (row && matches(row)) results.push(row);
+      }
+      return results;
+    }
+
+    const limit = this.skipCount + this.takeCount;
+    for (const key of keys) {
+      if (results.length >= limit) break;
+      const row = this.hydrate(await this.dbContext.getByKey(this.tableName, primaryKey, key));
+      if (row && matches(row)) results.push(row);
+    }
+    return results;
+  }
+
+  /**
+   * Sorts by every key at once, reading each item's keys a single time.
+   * Items that tie on all keys keep their order.
+   */
+  private sort(items: T[]): T[] {
+    const keyed = items.map(item => ({ item, keys: this.sortKeys.map(sort => sort.extractor(item)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < this.sortKeys.length; i++) {
+        const sort = this.sortKeys[i];
+        const result = sort.compare(a.keys[i], b.keys[i]);
+        if (result !== 0) {
+          return sort.desc ? -result : result;
+        }
+      }
+      return 0;
+    });
+    return keyed.map(entry => entry.item);
+  }
+
+  /**
+   * A query over rows produced in code, such as the results of a join. Its
+   * operators run in memory over whatever the source returns.
+   */
+  private static fromSource<R>(dbContext: any, source: () => Promise<R[]>): Queryable<R> {
+    const query = new Queryable<R>(dbContext, Object, '');
+    query.source = source;
+    return query;
+  }
+
+  private hydrate(row: any): T {
+    return this.plain ? row : this.dbContext.materialize(this.entityType, row);
+  }
+
+  private clone<Q extends Queryable<T>>(newQuery: Q = new Queryable(this.dbContext, this.entityType, this.tableName) as Q): Q {
     newQuery.filters = [...this.filters];
+    newQuery.predicates = [...this.predicates];
     newQuery.sortKeys = [...this.sortKeys];
     newQuery.skipCount = this.skipCount;
     newQuery.takeCount = this.takeCount;
     newQuery.includeRelations = [...this.includeRelations];
     newQuery.selectFields = this.selectFields ? [...this.selectFields] : undefined;
     newQuery.projection = this.projection;
+    newQuery.plain = this.plain;
+    newQuery.loadTarget = this.loadTarget;
+    newQuery.source = this.source;
     return newQuery;
   }
 
   private async loadRelations(results: T[]): Promise<T[]> {
-    for (const relation of this.includeRelations) {
-      const foreignKeys = Reflect.getMetadata('foreignKeys', this.entityType.prototype) || [];
-      const fk = foreignKeys.find((f: any) => f.propertyKey === relation);
-      
-      if (fk) {
-        const relatedEntity = fk.relatedEntity();
-        const relatedTableName = Reflect.getMetadata('tableName', relatedEntity.prototype);
-        const relatedData = await this.dbContext.getData(relatedTableName);
-        
-        for (const item of results) {
-          const relatedId = (item as any)[relation + 'Id'];
-          (item as any)[relation] = relatedData.find((r: any) => r.id === relatedId);
-        }
-      }
+    // Plain rows are the provider's own, so navigations go on copies
+    const rows = this.plain ? results.map(row => ({ ...row })) : results;
+    await loadIncludes(this.dbContext, this.entityType, rows, this.includeRelations, this.plain);
+    return rows;
+  }
+}
+
+function isQuerySource(value: any): value is QuerySource<any> {
+  return value instanceof Queryable || typeof value?.query === 'function';
+}
+
+function asQueryable<T>(source: QuerySource<T>): Queryable<T> {
+  return source instanceof Queryable ? source : source.query();
+}
+
+function keyOf(value: any): any {
+  return value === null || value === undefined ? undefined : hashKey(value);
+}
+
+/**
+ * Reads a source into a Map from hashed key to rows, skipping rows whose
+ * key is null or undefined.
+ */
+async function readLookup<I>(source: QuerySource<I>, keySelector: (row: I) => any): Promise<Map<any, I[]>> {
+  const lookup = new Map<any, I[]>();
+  for (const row of await asQueryable(source).toArray()) {
+    const key = keyOf(keySelector(row));
+    if (key === undefined) continue;
+
+    const rows = lookup.get(key);
+    if (rows) {
+      rows.push(row);
+    } else {
+      lookup.set(key, [row]);
     }
-    
-    return results;
+  }
+  return lookup;
+}
+
+/**
+ * A query whose last operation was a sort, so that thenBy() and
+ * thenByDescending() can add keys to it.
+ */
+export class OrderedQueryable<T> extends Queryable<T> {
+  thenBy<K>(selector: (item: T) => K, comparer?: SortComparer<K>): OrderedQueryable<T> {
+    return this.addSortKey(selector, false, comparer);
+  }
+
+  thenByDescending<K>(selector: (item: T) => K, comparer?: SortComparer<K>): OrderedQueryable<T> {
+    return this.addSortKey(selector, true, comparer);
+  }
+}
+
+/**
+ * A query whose last operation was include() or thenInclude(), so that
+ * thenInclude() can continue from the entities that include loads.
+ */
+export class IncludableQueryable<T, P> extends Queryable<T> {
+  thenInclude<Q>(selector: (item: NavigationTarget<P>) => Q): IncludableQueryable<T, Q> {
+    return this.includeNested(selector);
   }
 }
 
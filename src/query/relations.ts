@@ -0,0 +1,321 @@
+import { ManyToManyMetadata, getForeignKeys, getManyToMany, getPrimaryKey, getTableName } from '../decorators/metadata';
+import { StorageEntity } from '../storage/storageProvider';
+import { IndexManager } from '../core/indexManager';
+import { PredicateNode } from './expressions';
+
+/**
+ * A navigation property resolved to the rows it loads. A reference such as
+ * OrderItem.product holds the related row whose relatedKey equals the
+ * entity's foreignKey; a collection such as Order.orderItems holds the
+ * related rows whose foreignKey equals the entity's principalKey. A single
+ * collection (User.profile) is the one-to-one inverse of a reference and
+ * holds the first such row instead of an array. A skip navigation such as
+ * Product.tags holds the related rows linked through rows of joinTable.
+ */
+export type Navigation =
+  | { kind: 'reference'; property: string; relatedType: new () => any; relatedTable: string; foreignKey: string; relatedKey: string }
+  | {
+      kind: 'collection';
+      property: string;
+      relatedType: new () => any;
+      relatedTable: string;
+      foreignKey: string;
+      principalKey: string;
+      single: boolean;
+    }
+  | SkipNavigation;
+
+export interface SkipNavigation {
+  kind: 'skip';
+  property: string;
+  relatedType: new () => any;
+  relatedTable: string;
+  relatedKey: string;
+  principalKey: string;
+  joinType: new () => any;
+  joinTable: string;
+  /** Join entity property referencing the declaring entity */
+  foreignKey: string;
+  /** Join entity property referencing the related entity */
+  relatedForeignKey: string;
+}
+
+// Beyond this many distinct keys the related table is read once instead of
+// being queried key by key.
+const MAX_LOOKUP_KEYS = 500;
+
+/**
+ * Resolves a navigation property of an entity type. A skip navigation comes
+ * from @ManyToMany and a reference from the entity's own foreign key that
+ * names it as its navigation, or by convention the `<property>Id` key. A
+ * collection comes from a @ForeignKey on another entity that points back at
+ * the type. References use the key's relatedProperty or the related
+ * entity's primary key.
+ */
+export function findNavigation(
+  entityType: Function,
+  property: string,
+  entities: StorageEntity[]
+): Navigation | undefined {
+  const manyToMany = getManyToMany(entityType).find(navigation => navigation.propertyKey === property);
+  if (manyToMany) {
+    return toSkipNavigation(entityType, manyToMany, entities);
+  }
+
+  const foreignKeys = getForeignKeys(entityType);
+  const foreignKey = foreignKeys.find(fk => fk.navigation === property)
+    || foreignKeys.find(fk => !fk.navigation && fk.propertyKey === `${property}Id`);
+  if (foreignKey) {
+    const relatedType = foreignKey.relatedEntity();
+    return {
+      kind: 'reference',
+      property,
+      relatedType,
+      relatedTable: tableOf(relatedType, entities),
+      foreignKey: foreignKey.propertyKey,
+      relatedKey: foreignKey.relatedProperty || getPrimaryKey(relatedType)
+    };
+  }
+
+  return findCollectionNavigation(entityType, property, entities);
+}
+
+/**
+ * Lists the @ManyToMany navigations of an entity type.
+ */
+export function getSkipNavigations(entityType: Function, entities: StorageEntity[]): SkipNavigation[] {
+  return getManyToMany(entityType).map(navigation => toSkipNavigation(entityType, navigation, entities));
+}
+
+/**
+ * Resolves the join entity's two foreign keys: the ones named in the
+ * options, or else the ones that reference each side.
+ */
+function toSkipNavigation(entityType: Function, metadata: ManyToManyMetadata, entities: StorageEntity[]): SkipNavigation {
+  const relatedType = metadata.relatedEntity();
+  const joinType = metadata.joinEntity();
+  const joinKeys = getForeignKeys(joinType);
+
+  const foreignKey = joinKeys.find(fk => metadata.foreignKey
+    ? fk.propertyKey === metadata.foreignKey
+    : fk.relatedEntity() === entityType);
+  const relatedForeignKey = joinKeys.find(fk => metadata.relatedForeignKey
+    ? fk.propertyKey === metadata.relatedForeignKey
+    : fk.relatedEntity() === relatedType && fk !== foreignKey);
+
+  if (!foreignKey || !relatedForeignKey) {
+    throw new Error(`Join entity ${joinType.name} of '${metadata.propertyKey}' on ${entityType.name} needs a foreign key to each side`);
+  }
+
+  return {
+    kind: 'skip',
+    property: metadata.propertyKey,
+    relatedType,
+    relatedTable: tableOf(relatedType, entities),
+    relatedKey: relatedForeignKey.relatedProperty || getPrimaryKey(relatedType),
+    principalKey: foreignKey.relatedProperty || getPrimaryKey(entityType),
+    joinType,
+    joinTable: tableOf(joinType, entities),
+    foreignKey: foreignKey.propertyKey,
+    relatedForeignKey: relatedForeignKey.propertyKey
+  };
+}
+
+/**
+ * Finds the child entity behind a collection property by looking for
+ * @ForeignKey declarations that point back at the parent type. A key that
+ * names the property as its inverse wins; otherwise, among keys without an
+ * inverse, the child whose table name or class name matches the property
+ * (or whose class name starts it) is chosen. A property named after the
+ * child class, like User.profile for Profile, holds a single row.
+ */
+function findCollectionNavigation(
+  entityType: Function,
+  property: string,
+  entities: StorageEntity[]
+): Navigation | undefined {
+  const referencing = entities.flatMap(entity =>
+    getForeignKeys(entity.type)
+      .filter(foreignKey => foreignKey.relatedEntity() === entityType)
+      .map(foreignKey => ({ entity, foreignKey })));
+
+  const name = property.toLowerCase();
+  const isSingle = (entity: StorageEntity) => entity.type.name.toLowerCase() === name;
+
+  const declared = referencing.filter(({ foreignKey }) => foreignKey.inverse === property);
+  const candidates = declared.length > 0 ? declared : referencing.filter(({ foreignKey }) => !foreignKey.inverse);
+
+  let matches = candidates;
+  if (declared.length === 0 && candidates.length > 1) {
+    matches = candidates.filter(({ entity }) => entity.tableName === property || isSingle(entity));
+    if (matches.length === 0) {
+      matches = candidates.filter(({ entity }) => name.startsWith(entity.type.name.toLowerCase()));
+    }
+  }
+
+  if (matches.length === 0) return undefined;
+  if (matches.length > 1) {
+    throw new Error(`Navigation '${property}' on ${entityType.name} matches more than one foreign key`);
+  }
+
+  const { entity, foreignKey } = matches[0];
+  return {
+    kind: 'collection',
+    property,
+    relatedType: entity.type,
+    relatedTable: entity.tableName,
+    foreignKey: foreignKey.propertyKey,
+    principalKey: foreignKey.relatedProperty || getPrimaryKey(entityType),
+    single: isSingle(entity)
+  };
+}
+
+/**
+ * Loads include paths such as 'orderItems' and 'orderItems.product' onto
+ * rows of entityType. Each navigation is loaded with one lookup for all rows
+ * of its level, and the rows it loads are the parents of the next level.
+ * Related rows are copied, plain or not, so no navigation is ever set on a
+ * row a provider holds.
+ */
+export async function loadIncludes(
+  dbContext: any,
+  entityType: Function,
+  rows: any[],
+  paths: string[],
+  plain: boolean
+): Promise<void> {
+  const levels = new Map<string, string[]>();
+  for (const path of paths) {
+    const [property, ...rest] = path.split('.');
+    const nested = levels.get(property) || [];
+    if (rest.length > 0) nested.push(rest.join('.'));
+    levels.set(property, nested);
+  }
+
+  for (const [property, nested] of levels) {
+    const navigation = findNavigation(entityType, property, dbContext.getEntities());
+    if (!navigation) continue;
+
+    const loaded = await loadNavigation(dbContext, navigation, rows, plain);
+    if (nested.length > 0 && loaded.length > 0) {
+      await loadIncludes(dbContext, navigation.relatedType, loaded, nested, plain);
+    }
+  }
+}
+
+/**
+ * Fills one navigation on every row and returns the distinct related rows.
+ */
+async function loadNavigation(dbContext: any, navigation: Navigation, rows: any[], plain: boolean): Promise<any[]> {
+  if (navigation.kind === 'skip') {
+    return loadSkipNavigation(dbContext, navigation, rows, plain);
+  }
+
+  const { kind, relatedType, relatedTable, property } = navigation;
+  const ownKey = kind === 'reference' ? navigation.foreignKey : navigation.principalKey;
+  const relatedKey = kind === 'reference' ? navigation.relatedKey : navigation.foreignKey;
+
+  const keys = new Set(rows.map(row => row[ownKey]).filter(key => key !== undefined && key !== null));
+  const related = keys.size === 0 ? [] : await findRows(dbContext, relatedType, relatedTable, relatedKey, Array.from(keys));
+  const groups = new Map<any, any[]>();
+
+  for (const row of related) {
+    const key = row[relatedKey];
+    if (!keys.has(key)) continue;
+
+    const entity = plain ? { ...row } : dbContext.materialize(relatedType, row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(entity);
+    } else {
+      groups.set(key, [entity]);
+    }
+  }
+
+  for (const row of rows) {
+    const group = groups.get(row[ownKey]);
+    row[property] = kind === 'reference' || navigation.single ? group?.[0] : group || [];
+  }
+
+  return Array.from(groups.values()).flat();
+}
+
+/**
+ * Fills a skip navigation from the join rows of every row, and records the
+ * loaded links so that saveChanges() can tell which were added or removed.
+ */
+async function loadSkipNavigation(dbContext: any, navigation: SkipNavigation, rows: any[], plain: boolean): Promise<any[]> {
+  const { property, principalKey, relatedKey, foreignKey, relatedForeignKey } = navigation;
+  const links = await findLinks(dbContext, navigation, rows.map(row => row[principalKey]));
+
+  const relatedKeys = new Set(links.map(link => link[relatedForeignKey]));
+  const related = new Map<any, any>();
+  if (relatedKeys.size > 0) {
+    for (const row of await findRows(dbContext, navigation.relatedType, navigation.relatedTable, relatedKey, Array.from(relatedKeys))) {
+      if (relatedKeys.has(row[relatedKey]) && !related.has(row[relatedKey])) {
+        related.set(row[relatedKey], plain ? { ...row } : dbContext.materialize(navigation.relatedType, row));
+      }
+    }
+  }
+
+  const linked = new Map<any, any[]>();
+  for (const link of links) {
+    const entity = related.get(link[relatedForeignKey]);
+    if (!entity) continue;
+    const group = linked.get(link[foreignKey]);
+    if (group) {
+      group.push(entity);
+    } else {
+      linked.set(link[foreignKey], [entity]);
+    }
+  }
+
+  for (const row of rows) {
+    row[property] = linked.get(row[principalKey]) || [];
+    dbContext.changeTracker.setOriginalLinks(row, property, row[property].map((entity: any) => entity[relatedKey]));
+  }
+
+  return Array.from(related.values());
+}
+
+/**
+ * Reads the join rows of a skip navigation that belong to any of the keys.
+ */
+export async function findLinks(dbContext: any, navigation: SkipNavigation, keys: any[]): Promise<any[]> {
+  const { joinType, joinTable, foreignKey } = navigation;
+  const wanted = new Set(keys.filter(key => key !== undefined && key !== null));
+  if (wanted.size === 0) return [];
+
+  const rows = await findRows(dbContext, joinType, joinTable, foreignKey, Array.from(wanted));
+  return rows.filter(row => wanted.has(row[foreignKey]));
+}
+
+/**
+ * Reads the rows of a table whose property holds any of the keys, through
+ * an index or the provider's predicate support when available. The result
+ * may include other rows.
+ */
+export async function findRows(dbContext: any, entityType: Function, tableName: string, property: string, keys: any[]): Promise<any[]> {
+  if (keys.length > MAX_LOOKUP_KEYS) {
+    return dbContext.getData(tableName);
+  }
+
+  const predicate: PredicateNode = keys.length === 1
+    ? { kind: 'comparison', property, op: 'eq', value: keys[0] }
+    : { kind: 'or', operands: keys.map(value => ({ kind: 'comparison', property, op: 'eq', value })) };
+
+  const primaryKey = getPrimaryKey(entityType);
+  const indexes: IndexManager | undefined = dbContext.getIndexManager(tableName);
+  const rowKeys = property === primaryKey ? keys : await indexes?.lookup(predicate);
+
+  if (!rowKeys) {
+    return dbContext.getDataWhere(tableName, primaryKey, predicate);
+  }
+
+  const rows = await Promise.all(rowKeys.map(key => dbContext.getByKey(tableName, primaryKey, key)));
+  return rows.filter(row => row !== null);
+}
+
+function tableOf(entityType: Function, entities: StorageEntity[]): string {
+  return entities.find(entity => entity.type === entityType)?.tableName || getTableName(entityType) || entityType.name;
+}
@@ -2,26 +2,27 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { createReadStream, createWriteStream } from 'fs';
 import { EventEmitter } from 'events';
-
-interface StorageProvider {
-  connect(config: any): Promise<void>;
-  getData(table: string): Promise<any[]>;
-  saveData(table: string, data: any[]): Promise<void>;
-  query(table: string, filter: (item: any) => boolean): Promise<any[]>;
-  close(): Promise<void>;
-}
+import { getPrimaryKey } from '../decorators/metadata';
+import { StorageEntity, StorageProvider } from './storageProvider';
+import { Serializer } from './serializer';
 
 interface CacheEntry<T> {
-  data: ReadonlyArray<T>;
+  rows: Map<any, T>;
   version: number;
   lastAccess: number;
 }
 
+interface WalRecord {
+  op: 'insert' | 'update' | 'delete';
+  key: any;
+  row?: any;
+}
+
 export class FastStorageProvider implements StorageProvider {
   private dataDir: string = './data';
   private cache: Map<string, CacheEntry<any>> = new Map();
   private pendingReads: Map<string, Promise<any[]>> = new Map();
-  private writeQueue: Map<string, any[]> = new Map();
+  private writeQueue: Map<string, Map<any, any>> = new Map();
   private writeTimer: NodeJS.Timeout | null = null;
   private version: number = 0;
   private eventBus = new EventEmitter();
@@ -30,16 +31,35 @@ export class FastStorageProvider implements StorageProvider {
     maxCacheSize: 100 * 1024 * 1024, 
     writeDelay: 100, 
     hotDataThreshold: 10, 
+    wal: false,
+    walCompactThreshold: 1000,
   };
 
   private readCounts: Map<string, number> = new Map();
+  private primaryKeys: Map<string, string> = new Map();
+  private logLocks: Map<string, Promise<void>> = new Map();
+  private logBatches: Map<string, { lines: string[]; done: Promise<void> }> = new Map();
+  private logCounts: Map<string, number> = new Map();
+  private loggedRows: Map<string, Map<any, string>> = new Map();
+  private serializer = new Serializer();
 
   async connect(config: any): Promise<void> {
     if (config.dataDir) {
       this.dataDir = config.dataDir;
     }
+    if (config.wal !== undefined) {
+      this.config.wal = config.wal;
+    }
+    if (config.walCompactThreshold) {
+      this.config.walCompactThreshold = config.walCompactThreshold;
+    }
+    for (const entity of (config.entities || []) as StorageEntity[]) {
+      this.primaryKeys.set(entity.tableName, getPrimaryKey(entity.type));
+    }
+    this.serializer = new Serializer(config.entities);
     
     await fs.mkdir(this.dataDir, { recursive: true });
+    await this.replayLogs();
     
     if (config.preload) {
       await Promise.all(config.preload.map((table: string) => this.warmCache(table)));
@@ -50,7 +70,7 @@ export class FastStorageProvider implements StorageProvider {
     const cached = this.cache.get(table);
     if (cached) {
       cached.lastAccess = Date.now();
-      return [...cached.data];
+      return Array.from(cached.rows.values());
     }
 
     const pending = this.pendingReads.get(table);
@@ -77,6 +97,20 @@ export class FastStorageProvider implements StorageProvider {
     }
   }
 
+  /**
+   * Yields the rows a table holds when the scan starts, so rows written
+   * while the caller iterates are not visited.
+   */
+  async *scan(table: string): AsyncGenerator<any> {
+    const cached = this.cache.get(table);
+    if (cached) {
+      cached.lastAccess = Date.now();
+      yield* Array.from(cached.rows.values());
+      return;
+    }
+    yield* await this.getData(table);
+  }
+
   async query(table: string, filter: (item: any) => boolean): Promise<any[]> {
     const data = await this.getData(table);
 
@@ -84,12 +118,90 @@ export class FastStorageProvider implements StorageProvider {
   }
 
   async saveData(table: string, data: any[]): Promise<void> {
+    if (this.config.wal) {
+      const records = await this.diff(table, data);
+
+      this.version++;
+      this.addToCache(table, data);
+
+      if (records.length > 0) {
+        await this.appendToLog(table, records);
+      }
+      return;
+    }
 
     this.version++;
     
-    this.addToCache(table, data);
+    const entry = this.addToCache(table, data);
     
-    this.writeQueue.set(table, data);
+    this.scheduleWrite(table, entry.rows);
+  }
+
+  async getByKey(table: string, key: any): Promise<any | undefined> {
+    const entry = await this.ensureCached(table);
+    return entry.rows.get(key);
+  }
+
+  async insert(table: string, row: any): Promise<void> {
+    const entry = await this.ensureCached(table);
+    const key = row[this.primaryKeyOf(table)];
+
+    entry.rows.set(key, row);
+    await this.persistRow(table, entry, { op: 'insert', key, row });
+  }
+
+  async updateByKey(table: string, key: any, row: any): Promise<void> {
+    const entry = await this.ensureCached(table);
+
+    entry.rows.set(key, row);
+    await this.persistRow(table, entry, { op: 'update', key, row });
+  }
+
+  async deleteByKey(table: string, key: any): Promise<void> {
+    const entry = await this.ensureCached(table);
+
+    entry.rows.delete(key);
+    await this.persistRow(table, entry, { op: 'delete', key });
+  }
+
+  /**
+   * Row-level changes work on the cached primary-key map, so the table is
+   * pinned in the cache regardless of how often it is read.
+   */
+  private async ensureCached(table: string): Promise<CacheEntry<any>> {
+    const cached = this.cache.get(table);
+    if (cached) {
+      cached.lastAccess = Date.now();
+      return cached;
+    }
+
+    const data = await (this.pendingReads.get(table) || this.loadFromDisk(table));
+    return this.cache.get(table) || this.addToCache(table, data);
+  }
+
+  private async persistRow(table: string, entry: CacheEntry<any>, record: WalRecord): Promise<void> {
+    this.version++;
+    entry.version = this.version;
+
+    if (!this.config.wal) {
+      this.scheduleWrite(table, entry.rows);
+      return;
+    }
+
+    const logged = this.loggedRows.get(table);
+    if (logged) {
+      if (record.op === 'delete') {
+        logged.delete(record.key);
+      } else {
+        logged.set(record.key, this.serializer.stringify(table, record.row));
+      }
+    }
+
+    await this.appendToLog(table, [record]);
+  }
+
+  private scheduleWrite(table: string, rows: Map<any, any>): void {
+    this.writeQueue.set(table, rows);
     
     if (!this.writeTimer) {
       this.writeTimer = setTimeout(() => this.flushWrites(), this.config.writeDelay);
@@ -98,33 +210,192 @@ export class FastStorageProvider implements StorageProvider {
 
   private async loadFromDisk(table: string): Promise<any[]> {
     const filePath = path.join(this.dataDir, `${table}.json`);
+    let data: any[];
     
     try {
       const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content);
+      data = JSON.parse(content);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      data = [];
+    }
+
+    const records = await this.applyLog(table, data);
+    return records.map(record => this.serializer.deserialize(table, record));
+  }
+
+  private primaryKeyOf(table: string): string {
+    return this.primaryKeys.get(table) || 'id';
+  }
+
+  private logPath(table: string): string {
+    return path.join(this.dataDir, `${table}.log`);
+  }
+
+  /**
+   * Builds the insert/update/delete records that turn the logged contents of
+   * a table into the new ones. Rows are compared by their serialized form as
+   * last written, since cached rows may have been mutated in place.
+   */
+  private async diff(table: string, next: any[]): Promise<WalRecord[]> {
+    const primaryKey = this.primaryKeyOf(table);
+    let logged = this.loggedRows.get(table);
+
+    if (!logged) {
+      const stored = await this.loadFromDisk(table);
+      logged = new Map(stored.map(row => [row[primaryKey], this.serializer.stringify(table, row)]));
+      this.loggedRows.set(table, logged);
+    }
+
+    const records: WalRecord[] = [];
+    const remaining = new Set(logged.keys());
+
+    for (const row of next) {
+      const key = row[primaryKey];
+      const serialized = this.serializer.stringify(table, row);
+      const previous = logged.get(key);
+
+      if (previous === undefined) {
+        records.push({ op: 'insert', key, row });
+      } else if (previous !== serialized) {
+        records.push({ op: 'update', key, row });
+      }
+      logged.set(key, serialized);
+      remaining.delete(key);
+    }
+
+    for (const key of remaining) {
+      records.push({ op: 'delete', key });
+      logged.delete(key);
+    }
+
+    return records;
+  }
+
+  /**
+   * Appends records to the table's log and waits until they reach the disk,
+   * compacting the log into the snapshot once it grows past the threshold.
+   * Appends to the same table are serialized to keep the records ordered;
+   * records queued while an append is in flight share the next one.
+   */
+  private appendToLog(table: string, records: WalRecord[]): Promise<void> {
+    const lines = records.map(record => JSON.stringify({
+      op: record.op,
+      key: this.serializer.serializeProperty(table, this.primaryKeyOf(table), record.key),
+      row: record.row && this.serializer.serialize(table, record.row)
+    }));
+
+    const pending = this.logBatches.get(table);
+    if (pending) {
+      pending.lines.push(...lines);
+      return pending.done;
+    }
+
+    const previous = this.logLocks.get(table) || Promise.resolve();
+    const batch = { lines, done: Promise.resolve() };
+
+    batch.done = previous.then(async () => {
+      this.logBatches.delete(table);
+
+      const handle = await fs.open(this.logPath(table), 'a');
+      try {
+        await handle.appendFile(batch.lines.join('\n') + '\n');
+        await handle.datasync();
+      } finally {
+        await handle.close();
+      }
+
+      const count = (this.logCounts.get(table) || 0) + batch.lines.length;
+      this.logCounts.set(table, count);
+
+      if (count >= this.config.walCompactThreshold) {
+        await this.compact(table);
+      }
+    });
+
+    this.logBatches.set(table, batch);
+    this.logLocks.set(table, batch.done.catch(() => {}));
+    return batch.done;
+  }
+
+  private async applyLog(table: string, data: any[]): Promise<any[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.logPath(table), 'utf-8');
     } catch (error: any) {
       if (error.code === 'ENOENT') {
-        return [];
+        return data;
       }
       throw error;
     }
+
+    const primaryKey = this.primaryKeyOf(table);
+    const rows = new Map<any, any>(data.map(row => [row[primaryKey], row]));
+    const lines = content.split('\n').filter(line => line.trim().length > 0);
+
+    for (let i = 0; i < lines.length; i++) {
+      let record: WalRecord;
+      try {
+        record = JSON.parse(lines[i]);
+      } catch (error) {
+        // A torn final record is a write that was never acknowledged.
+        if (i === lines.length - 1) break;
+        throw error;
+      }
+
+      if (record.op === 'delete') {
+        rows.delete(record.key);
+      } else {
+        rows.set(record.key, record.row);
+      }
+    }
+
+    return Array.from(rows.values());
   }
 
-  private addToCache(table: string, data: any[]): void {
-    const immutableData = Object.freeze([...data]);
-    
-    this.cache.set(table, {
-      data: immutableData,
+  private async compact(table: string): Promise<void> {
+    const cached = this.cache.get(table);
+    const data = cached ? Array.from(cached.rows.values()) : await this.loadFromDisk(table);
+
+    await this.writeToDisk(table, data);
+    await fs.writeFile(this.logPath(table), '');
+    this.logCounts.set(table, 0);
+  }
+
+  /**
+   * Folds every log left behind by a previous session into its snapshot.
+   */
+  private async replayLogs(): Promise<void> {
+    const files = await fs.readdir(this.dataDir);
+
+    for (const file of files.filter(f => f.endsWith('.log'))) {
+      const table = file.slice(0, -'.log'.length);
+      const data = await this.loadFromDisk(table);
+      await this.writeToDisk(table, data);
+      await fs.unlink(this.logPath(table));
+    }
+  }
+
+  private addToCache(table: string, data: any[]): CacheEntry<any> {
+    const primaryKey = this.primaryKeyOf(table);
+    const entry: CacheEntry<any> = {
+      rows: new Map(data.map(row => [row[primaryKey], row])),
       version: this.version,
       lastAccess: Date.now()
-    });
+    };
+    
+    this.cache.set(table, entry);
     
     this.evictIfNeeded();
+    return entry;
   }
 
   private evictIfNeeded(): void {
     if (this.cache.size > 50) {
       const entries = Array.from(this.cache.entries())
+        .filter(([table]) => !this.writeQueue.has(table) && !this.logBatches.has(table))
         .sort((a, b) => a[1].lastAccess - b[1].lastAccess);
       
       const toRemove = entries.slice(0, entries.length - 40);
@@ -139,7 +410,7 @@ export class FastStorageProvider implements StorageProvider {
     this.writeQueue.clear();
     
     await Promise.all(
-      writes.map(([table, data]) => this.writeToDisk(table, data))
+      writes.map(([table, rows]) => this.writeToDisk(table, Array.from(rows.values())))
     );
     
     writes.forEach(([table]) => {
@@ -151,7 +422,8 @@ export class FastStorageProvider implements StorageProvider {
     const filePath = path.join(this.dataDir, `${table}.json`);
     const tempPath = `${filePath}.tmp`;
     
-    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    const records = data.map(row => this.serializer.serialize(table, row));
+    await fs.writeFile(tempPath, JSON.stringify(records, null, 2));
     
     await fs.rename(tempPath, filePath);
   }
@@ -169,66 +441,19 @@ export class FastStorageProvider implements StorageProvider {
       clearTimeout(this.writeTimer);
       await this.flushWrites();
     }
-    
-    this.cache.clear();
-    this.pendingReads.clear();
-  }
 
-  async createIndex(table: string, field: string): Promise<void> {
-    const data = await this.getData(table);
-    const sorted = [...data].sort((a, b) => {
-      if (a[field] < b[field]) return -1;
-      if (a[field] > b[field]) return 1;
-      return 0;
-    });
-    
-    const indexPath = path.join(this.dataDir, `${table}.${field}.idx`);
-    await fs.writeFile(indexPath, JSON.stringify(sorted));
-  }
-
-  async queryRange(table: string, field: string, min: any, max: any): Promise<any[]> {
-    const indexPath = path.join(this.dataDir, `${table}.${field}.idx`);
-    
-    try {
-      const content = await fs.readFile(indexPath, 'utf-8');
-      const sorted = JSON.parse(content);
-      
-      const start = this.binarySearch(sorted, field, min, true);
-      const end = this.binarySearch(sorted, field, max, false);
-      
-      return sorted.slice(start, end + 1);
-    } catch {
-      const data = await this.getData(table);
-      return data.filter(item => item[field] >= min && item[field] <= max);
-    }
-  }
-
-  private binarySearch(arr: any[], field: string, value: any, findFirst: boolean): number {
-    let left = 0;
-    let right = arr.length - 1;
-    let result = findFirst ? arr.length : -1;
-    
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2);
-      const midValue = arr[mid][field];
-      
-      if (findFirst) {
-        if (midValue >= value) {
-          result = mid;
-          right = mid - 1;
-        } else {
-          left = mid + 1;
-        }
-      } else {
-        if (midValue <= value) {
-          result = mid;
-          left = mid + 1;
-        } else {
-          right = mid - 1;
-        }
+    await Promise.all(this.logLocks.values());
+    for (const [table, count] of this.logCounts) {
+      if (count > 0) {
+        await this.compact(table);
       }
     }
+    this.logLocks.clear();
+    this.logBatches.clear();
+    this.logCounts.clear();
+    this.loggedRows.clear();
     
-    return result;
+    this.cache.clear();
+    this.pendingReads.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { ColumnType } from '../decorators/column';
+import { getColumnType, getPersistedProperties } from '../decorators/metadata';
+import { StorageEntity } from './storageProvider';
+
+/**
+ * Converts rows to and from a JSON-safe form. Typed columns use a plain
+ * representation (ISO strings for dates, decimal strings for bigints, base64
+ * for buffers); values whose type is not declared, including values nested
+ * in json columns, are wrapped as { $date }, { $bigint } or { $buffer } so
+ * they come back as the same type. Rows of a mapped table keep only their
+ * persisted properties, leaving out navigations and anything else set on an
+ * entity.
+ */
+export class Serializer {
+  private tables: Map<string, Map<string, ColumnType | undefined>> = new Map();
+
+  constructor(entities: StorageEntity[] = []) {
+    for (const entity of entities) {
+      const columns = new Map<string, ColumnType | undefined>();
+      for (const property of getPersistedProperties(entity.type)) {
+        columns.set(property, getColumnType(entity.type, property));
+      }
+      this.tables.set(entity.tableName, columns);
+    }
+  }
+
+  serialize(table: string, row: any): any {
+    const columns = this.tables.get(table);
+    const record: any = {};
+
+    for (const [property, value] of Object.entries(row)) {
+      if (value !== undefined && (!columns || columns.has(property))) {
+        record[property] = serializeValue(value, columns?.get(property));
+      }
+    }
+    return record;
+  }
+
+  deserialize(table: string, record: any): any {
+    const columns = this.tables.get(table);
+    const row: any = {};
+
+    for (const [property, value] of Object.entries(record)) {
+      row[property] = deserializeValue(value, columns?.get(property));
+    }
+    return row;
+  }
+
+  serializeProperty(table: string, property: string, value: any): any {
+    return serializeValue(value, this.tables.get(table)?.get(property));
+  }
+
+  /**
+   * Serialized form of a row as a string, for comparing rows by content.
+   */
+  stringify(table: string, row: any): string {
+    return JSON.stringify(this.serialize(table, row));
+  }
+}
+
+export function serializeValue(value: any, type?: ColumnType): any {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  switch (type) {
+    case 'date':
+      return value instanceof Date ? (Number.isNaN(value.getTime()) ? null : value.toISOString()) : value;
+    case 'bigint':
+      return typeof value === 'bigint' ? value.toString() : value;
+    case 'buffer':
+      return ArrayBuffer.isView(value) ? toBuffer(value).toString('base64') : value;
+    default:
+      return encode(value);
+  }
+}
+
+export function deserializeValue(value: any, type?: ColumnType): any {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  switch (type) {
+    case 'date':
+      return typeof value === 'string' || typeof value === 'number' ? new Date(value) : decode(value);
+    case 'bigint':
+      return typeof value === 'string' || typeof value === 'number' ? BigInt(value) : decode(value);
+    case 'buffer':
+      return typeof value === 'string' ? Buffer.from(value, 'base64') : decode(value);
+    default:
+      return decode(value);
+  }
+}
+
+/**
+ * Wraps dates, bigints and buffers anywhere inside a value.
+ */
+export function encode(value: any): any {
+  if (value instanceof Date) {
+    return { $date: Number.isNaN(value.getTime()) ? null : value.toISOString() };
+  }
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (ArrayBuffer.isView(value)) {
+    return { $buffer: toBuffer(value).toString('base64') };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: any = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        result[key] = encode(item);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+export function decode(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 1) {
+    switch (keys[0]) {
+      case '$date': return value.$date === null ? new Date(NaN) : new Date(value.$date);
+      case '$bigint': return BigInt(value.$bigint);
+      case '$buffer': return Buffer.from(value.$buffer, 'base64');
+    }
+  }
+
+  const result: any = {};
+  for (const key of keys) {
+    result[key] = decode(value[key]);
+  }
+  return result;
+}
+
+function toBuffer(view: ArrayBufferView): Buffer {
+  return Buffer.from(view.buffer, view.byteOffset, view.byteLength);
+}
@@ -0,0 +1,410 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import { ColumnType } from '../decorators/column';
+import { getColumnType, getPersistedProperties, getPrimaryKey } from '../decorators/metadata';
+import { StorageEntity, StorageProvider } from './storageProvider';
+import { ComparisonNode, ComparisonOperator, PredicateNode } from '../query/expressions';
+import { decode, encode } from './serializer';
+
+interface TableSchema {
+  name: string;
+  primaryKey: string;
+  columns: { property: string; type?: ColumnType }[];
+  insert?: StatementSync;
+  selectByKey?: StatementSync;
+  update?: StatementSync;
+  delete?: StatementSync;
+}
+
+/**
+ * Stores each entity in its own table of a single SQLite file, using the
+ * built-in node:sqlite module (Node 22.5+). Columns are derived from the
+ * @PrimaryKey, @Column and @ForeignKey metadata of the entity type.
+ */
+export class SqliteStorageProvider implements StorageProvider {
+  private db?: DatabaseSync;
+  private tables: Map<string, TableSchema> = new Map();
+
+  async connect(config: any): Promise<void> {
+    const filename: string = config.filename || ':memory:';
+
+    if (filename !== ':memory:') {
+      await fs.mkdir(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new (this.loadDriver().DatabaseSync)(filename);
+
+    if (filename !== ':memory:') {
+      // Each flush commits one transaction; WAL keeps commits cheap.
+      this.db.exec('PRAGMA journal_mode = WAL');
+      this.db.exec('PRAGMA synchronous = NORMAL');
+    }
+
+    for (const entity of (config.entities || []) as StorageEntity[]) {
+      this.createTable(entity);
+    }
+  }
+
+  async getData(table: string): Promise<any[]> {
+    const schema = this.tables.get(table);
+    if (!schema) {
+      return [];
+    }
+
+    const rows = this.database.prepare(`SELECT * FROM ${quote(schema.name)}`).all();
+    return rows.map(row => this.fromRow(schema, row));
+  }
+
+  /**
+   * Yields the rows of a table through a cursor instead of reading them all.
+   * Drivers without StatementSync.iterate() (before Node 22.13) read the
+   * table at once.
+   */
+  async *scan(table: string): AsyncGenerator<any> {
+    const schema = this.tables.get(table);
+    if (!schema) return;
+
+    const last = this.lastRowid(schema);
+    if (last === null) return;
+
+    const statement = this.database.prepare(`SELECT * FROM ${quote(schema.name)} WHERE rowid <= ?`);
+    if (typeof statement.iterate !== 'function') {
+      yield* await this.getData(table);
+      return;
+    }
+    for (const row of statement.iterate(last)) {
+      yield this.fromRow(schema, row);
+    }
+  }
+
+  /**
+   * Yields the rows queryWhere() would return through a cursor. Like scan(),
+   * it does not visit rows inserted while the caller iterates.
+   */
+  async *scanWhere(table: string, predicate: PredicateNode): AsyncGenerator<any> {
+    const schema = this.tables.get(table);
+    if (!schema) return;
+
+    const clause = this.toSql(schema, predicate);
+    if (!clause) {
+      yield* this.scan(table);
+      return;
+    }
+
+    const last = this.lastRowid(schema);
+    if (last === null) return;
+
+    const statement = this.database.prepare(`SELECT * FROM ${quote(schema.name)} WHERE rowid <= ? AND (${clause.sql})`);
+    if (typeof statement.iterate !== 'function') {
+      yield* await this.queryWhere(table, predicate);
+      return;
+    }
+    for (const row of statement.iterate(last, ...clause.params)) {
+      yield this.fromRow(schema, row);
+    }
+  }
+
+  async saveData(table: string, data: any[]): Promise<void> {
+    const schema = this.getSchema(table);
+
+    await this.batch(async () => {
+      this.database.exec(`DELETE FROM ${quote(schema.name)}`);
+      for (const item of data) {
+        schema.insert!.run(...this.toRow(schema, item));
+      }
+    });
+  }
+
+  /**
+   * Runs the writes of a flush in a savepoint, which starts a transaction
+   * of its own when none is open, so that they are committed together or
+   * not at all.
+   */
+  async batch(write: () => Promise<void>): Promise<void> {
+    const db = this.database;
+    db.exec('SAVEPOINT batch');
+    try {
+      await write();
+      db.exec('RELEASE batch');
+    } catch (error) {
+      db.exec('ROLLBACK TO batch');
+      db.exec('RELEASE batch');
+      throw error;
+    }
+  }
+
+  async getByKey(table: string, key: any): Promise<any | undefined> {
+    const schema = this.tables.get(table);
+    if (!schema) {
+      return undefined;
+    }
+
+    const row = schema.selectByKey!.get(toSqlValue(key));
+    return row ? this.fromRow(schema, row) : undefined;
+  }
+
+  async insert(table: string, row: any): Promise<void> {
+    const schema = this.getSchema(table);
+    schema.insert!.run(...this.toRow(schema, row));
+  }
+
+  async updateByKey(table: string, key: any, row: any): Promise<void> {
+    const schema = this.getSchema(table);
+    const result = schema.update!.run(...this.toRow(schema, row), toSqlValue(key));
+
+    if (Number(result.changes) === 0) {
+      schema.insert!.run(...this.toRow(schema, row));
+    }
+  }
+
+  async deleteByKey(table: string, key: any): Promise<void> {
+    const schema = this.getSchema(table);
+    schema.delete!.run(toSqlValue(key));
+  }
+
+  async query(table: string, filter: (item: any) => boolean): Promise<any[]> {
+    const data = await this.getData(table);
+    return data.filter(filter);
+  }
+
+  /**
+   * Translates the predicate into a WHERE clause. Conditions that cannot be
+   * expressed with the same meaning as the JavaScript comparison are left
+   * out of conjunctions; if a disjunction cannot be translated, the whole
+   * table is returned.
+   */
+  async queryWhere(table: string, predicate: PredicateNode): Promise<any[]> {
+    const schema = this.tables.get(table);
+    if (!schema) {
+      return [];
+    }
+
+    const clause = this.toSql(schema, predicate);
+    if (!clause) {
+      return this.getData(table);
+    }
+
+    const rows = this.database
+      .prepare(`SELECT * FROM ${quote(schema.name)} WHERE ${clause.sql}`)
+      .all(...clause.params);
+    return rows.map(row => this.fromRow(schema, row));
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+    this.tables.clear();
+  }
+
+  private get database(): DatabaseSync {
+    if (!this.db) {
+      throw new Error('SQLite storage provider is not connected');
+    }
+    return this.db;
+  }
+
+  private loadDriver(): typeof import('node:sqlite') {
+    try {
+      return require('node:sqlite');
+    } catch {
+      throw new Error('The sqlite:// provider requires the node:sqlite module (Node.js 22.5 or later)');
+    }
+  }
+
+  private createTable(entity: StorageEntity): void {
+    const primaryKey = getPrimaryKey(entity.type);
+    const columns = getPersistedProperties(entity.type)
+      .map(property => ({ property, type: getColumnType(entity.type, property) }));
+
+    const schema: TableSchema = { name: entity.tableName, primaryKey, columns };
+    const definitions = columns.map(column => {
+      const definition = `${quote(column.property)} ${sqlType(column.type)}`;
+      return column.property === primaryKey ? `${definition} PRIMARY KEY` : definition;
+    });
+
+    this.database.exec(`CREATE TABLE IF NOT EXISTS ${quote(schema.name)} (${definitions.join(', ')})`);
+
+    const existing = new Set(
+      this.database.prepare(`PRAGMA table_info(${quote(schema.name)})`).all().map(info => info.name)
+    );
+    for (const column of columns) {
+      if (!existing.has(column.property)) {
+        this.database.exec(`ALTER TABLE ${quote(schema.name)} ADD COLUMN ${quote(column.property)} ${sqlType(column.type)}`);
+      }
+    }
+
+    const names = columns.map(column => quote(column.property)).join(', ');
+    const placeholders = columns.map(() => '?').join(', ');
+    const assignments = columns.map(column => `${quote(column.property)} = ?`).join(', ');
+    const byKey = `WHERE ${quote(primaryKey)} = ?`;
+
+    schema.insert = this.database.prepare(`INSERT INTO ${quote(schema.name)} (${names}) VALUES (${placeholders})`);
+    schema.selectByKey = this.database.prepare(`SELECT * FROM ${quote(schema.name)} ${byKey}`);
+    schema.update = this.database.prepare(`UPDATE ${quote(schema.name)} SET ${assignments} ${byKey}`);
+    schema.delete = this.database.prepare(`DELETE FROM ${quote(schema.name)} ${byKey}`);
+
+    this.tables.set(entity.tableName, schema);
+  }
+
+  /**
+   * Rows inserted while a cursor is open get higher rowids, so bounding the
+   * cursor by the current maximum leaves them out. Null for an empty table.
+   */
+  private lastRowid(schema: TableSchema): number | null {
+    return (this.database.prepare(`SELECT max(rowid) AS last FROM ${quote(schema.name)}`).get() as any).last;
+  }
+
+  private getSchema(table: string): TableSchema {
+    const schema = this.tables.get(table);
+    if (!schema) {
+      throw new Error(`No entity is mapped to table '${table}'`);
+    }
+    return schema;
+  }
+
+  private toSql(schema: TableSchema, node: PredicateNode): { sql: string; params: any[] } | undefined {
+    switch (node.kind) {
+      case 'comparison':
+        return this.comparisonToSql(schema, node);
+      case 'and':
+      case 'or': {
+        const parts = node.operands.map(operand => this.toSql(schema, operand));
+        const translated = parts.filter(part => part !== undefined);
+        if (translated.length === 0 || (node.kind === 'or' && translated.length < parts.length)) {
+          return undefined;
+        }
+        return {
+          sql: translated.map(part => `(${part.sql})`).join(node.kind === 'and' ? ' AND ' : ' OR '),
+          params: translated.flatMap(part => part.params)
+        };
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private comparisonToSql(schema: TableSchema, node: ComparisonNode): { sql: string; params: any[] } | undefined {
+    const column = schema.columns.find(c => c.property === node.property);
+    if (!column) {
+      return undefined;
+    }
+
+    const name = quote(column.property);
+    if (node.value === null || node.value === undefined) {
+      if (node.op === 'eq') return { sql: `${name} IS NULL`, params: [] };
+      if (node.op === 'ne') return { sql: `${name} IS NOT NULL`, params: [] };
+      return undefined;
+    }
+
+    if (!matchesColumnType(node.value, column.type, node.op)) {
+      return undefined;
+    }
+
+    const value = toSqlValue(node.value, column.type);
+    switch (node.op) {
+      case 'eq': return { sql: `${name} = ?`, params: [value] };
+      case 'ne': return { sql: `(${name} <> ? OR ${name} IS NULL)`, params: [value] };
+    }
+
+    const operator = { gt: '>', gte: '>=', lt: '<', lte: '<=' }[node.op];
+    // SQL never orders NULL, but JavaScript coerces it: `null < 40` holds
+    return admitsNull(node.op, node.value)
+      ? { sql: `(${name} ${operator} ? OR ${name} IS NULL)`, params: [value] }
+      : { sql: `${name} ${operator} ?`, params: [value] };
+  }
+
+  private toRow(schema: TableSchema, item: any): any[] {
+    return schema.columns.map(column => toSqlValue(item[column.property], column.type));
+  }
+
+  private fromRow(schema: TableSchema, row: Record<string, any>): any {
+    const item: any = {};
+    for (const column of schema.columns) {
+      const value = row[column.property];
+      item[column.property] = value === null || value === undefined ? null : fromSqlValue(value, column.type);
+    }
+    return item;
+  }
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function sqlType(type?: ColumnType): string {
+  switch (type) {
+    case 'number': return 'NUMERIC';
+    case 'boolean': return 'INTEGER';
+    case 'buffer': return 'BLOB';
+    case 'string':
+    case 'date':
+    case 'bigint':
+    case 'json': return 'TEXT';
+    default: return '';
+  }
+}
+
+function toSqlValue(value: any, type?: ColumnType): any {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (type === 'bigint') {
+    return value.toString();
+  }
+
+  if (type === 'json' || (typeof value === 'object' && !ArrayBuffer.isView(value))) {
+    return JSON.stringify(encode(value));
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+
+  return value;
+}
+
+/**
+ * Only values of the column's own type compare the same way in SQLite as
+ * in JavaScript; anything else is left to the in-memory filter.
+ */
+function matchesColumnType(value: any, type: ColumnType | undefined, op: string): boolean {
+  switch (type) {
+    case 'number': return typeof value === 'number' && !Number.isNaN(value);
+    case 'string': return typeof value === 'string';
+    case 'boolean': return typeof value === 'boolean' && (op === 'eq' || op === 'ne');
+    case 'date': return value instanceof Date && op !== 'eq' && op !== 'ne';
+    default: return false;
+  }
+}
+
+/**
+ * Whether a null column passes the comparison the way the in-memory filter
+ * evaluates it.
+ */
+function admitsNull(op: ComparisonOperator, value: any): boolean {
+  const missing: any = null;
+  switch (op) {
+    case 'gt': return missing > value;
+    case 'gte': return missing >= value;
+    case 'lt': return missing < value;
+    case 'lte': return missing <= value;
+    default: return false;
+  }
+}
+
+function fromSqlValue(value: any, type?: ColumnType): any {
+  switch (type) {
+    case 'boolean': return value === 1 || value === '1' || value === true;
+    case 'date': return new Date(value);
+    case 'json': return typeof value === 'string' ? decode(JSON.parse(value)) : value;
+    case 'bigint': return BigInt(value);
+    case 'buffer': return Buffer.from(value);
+    default: return value;
+  }
+}
@@ -0,0 +1,57 @@
+import { PredicateNode } from '../query/expressions';
+
+export interface StorageProvider {
+  connect(config: any): Promise<void>;
+  getData(table: string): Promise<any[]>;
+  saveData(table: string, data: any[]): Promise<void>;
+  query(table: string, filter: (item: any) => boolean): Promise<any[]>;
+  close(): Promise<void>;
+
+  /*
+   * Optional row-level operations keyed by the table's primary key. When a
+   * provider implements all of them, saveChanges() writes only the changed
+   * rows instead of replacing the whole table through saveData().
+   */
+  getByKey?(table: string, key: any): Promise<any | undefined>;
+  insert?(table: string, row: any): Promise<void>;
+  updateByKey?(table: string, key: any, row: any): Promise<void>;
+  deleteByKey?(table: string, key: any): Promise<void>;
+
+  /*
+   * Optional predicate pushdown. Must return at least every row matching the
+   * predicate; extra rows are fine because the query re-applies its lambdas.
+   */
+  queryWhere?(table: string, predicate: PredicateNode): Promise<any[]>;
+
+  /*
+   * Optional row-by-row read of a table, used by streaming queries so that
+   * a table is not copied or read whole before the first row is handled.
+   */
+  scan?(table: string): AsyncIterable<any>;
+
+  /*
+   * Optional row-by-row form of queryWhere(), used by streaming queries with
+   * an analyzed predicate. The same superset rule applies.
+   */
+  scanWhere?(table: string, predicate: PredicateNode): AsyncIterable<any>;
+
+  /*
+   * Optional atomic batch. saveChanges(), executeUpdate() and
+   * executeDelete() run every write of one flush inside it; if the callback
+   * rejects, the provider must leave storage as it was before the batch.
+   */
+  batch?(write: () => Promise<void>): Promise<void>;
+}
+
+/**
+ * Entity mapping handed to providers in the connect() config, so that a
+ * provider can derive its schema from the entity metadata.
+ */
+export interface StorageEntity {
+  tableName: string;
+  type: new () => any;
+}
+
+export function supportsRowOperations(provider: StorageProvider): boolean {
+  return !!(provider.getByKey && provider.insert && provider.updateByKey && provider.deleteByKey);
+}
@@ -1,8 +1,26 @@
+type IfEquals<X, Y, A, B> =
+  (<V>() => V extends X ? 1 : 2) extends (<V>() => V extends Y ? 1 : 2) ? A : B;
+
+/**
+ * Keys of the stored fields of an entity class, leaving out methods and
+ * read-only (getter) properties
+ */
+export type DataKeys<T> = {
+  [K in keyof T]-?: T[K] extends Function
+    ? never
+    : IfEquals<{ [P in K]: T[K] }, { -readonly [P in K]: T[K] }, K, never>
+}[keyof T];
+
+/**
+ * The stored fields of an entity, e.g. a spread copy of an entity instance
+ */
+export type EntityData<T> = Pick<T, DataKeys<T>>;
+
 /**
  * Helper type for creating entities without requiring an ID
  * Assumes entities have an 'id' field that will be auto-generated
  */
-export type CreateEntity<T> = Omit<T, 'id'> & { id?: number };
+export type CreateEntity<T> = Omit<EntityData<T>, 'id'> & { id?: number };
 
 /**
  * Helper type for updating entities (all fields optional except ID)
@@ -1,4 +1,5 @@
 import { DbContext } from "../../src/core/dbContext"
+import { DbConfig } from "../../src/config/dbConfig";
 import { DbSet } from "../../src/core/dbSet";
 import { Department } from "../models/department.model";
 import { Product } from "../models/product.model";
@@ -9,6 +10,7 @@ import { Profile } from "../models/profile.model";
 import { Category } from "../models/category.model";
 import { Tag } from "../models/tag.model";
 import { ProductTag } from "../models/productTag.model";
+import { Shipment } from "../models/shipment.model";
 import { dbConfig } from "../db.config";
 
 export class AppDbContext extends DbContext {
@@ -21,9 +23,10 @@ export class AppDbContext extends DbContext {
   categories!: DbSet<Category>;
   tags!: DbSet<Tag>;
   productTags!: DbSet<ProductTag>;
+  shipments!: DbSet<Shipment>;
 
-  constructor() {
-    super(dbConfig);
+  constructor(config: DbConfig = dbConfig) {
+    super(config);
   }
 
   protected onModelCreating(): void {
@@ -8,6 +8,7 @@ import { Profile } from './models/profile.model';
 import { Category } from './models/category.model';
 import { Tag } from './models/tag.model';
 import { ProductTag } from './models/productTag.model';
+import { Shipment } from './models/shipment.model';
 
 export const dbConfig: DbConfig = {
   dbName: 'myapp',
@@ -51,6 +52,10 @@ export const dbConfig: DbConfig = {
     productTags: {
       type: ProductTag,
       tableName: 'productTags'
+    },
+    shipments: {
+      type: Shipment,
+      tableName: 'shipments'
     }
   }
 };
\ No newline at end of file
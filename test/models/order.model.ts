@@ -1,14 +1,17 @@
 import 'reflect-metadata';
-import { Column, ForeignKey, PrimaryKey, Table } from '../../src/decorators/column';
+import { Column, ForeignKey, Index, PrimaryKey, Table } from '../../src/decorators/column';
 import { User } from './user.model';
 import { OrderItem } from './orderItem.model';
+import { Shipment } from './shipment.model';
 
 @Table('orders')
+@Index(['userId', 'status'])
 export class Order {
   @PrimaryKey()
   @Column({ type: 'number' })
   id!: number;
 
+  @Index({ unique: true })
   @Column({ type: 'string' })
   orderNumber!: string;
 
@@ -21,9 +24,15 @@ export class Order {
   @Column({ type: 'string' })
   status!: string;
 
-  @ForeignKey(() => User)
+  @ForeignKey(() => User, { onDelete: 'restrict' })
   userId!: number;
 
   user?: User;
   orderItems?: OrderItem[];
+  shipments?: Shipment[];
+
+  get isOverdue(): boolean {
+    const thirtyDays = 30 * 24 * 60 * 60 * 1000;
+    return this.status === 'pending' && Date.now() - this.orderDate.getTime() > thirtyDays;
+  }
 }
\ No newline at end of file
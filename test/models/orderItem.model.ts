@@ -15,10 +15,10 @@ export class OrderItem {
   @Column({ type: 'number' })
   unitPrice!: number;
 
-  @ForeignKey(() => Order)
+  @ForeignKey(() => Order, { onDelete: 'cascade', enforce: true })
   orderId!: number;
 
-  @ForeignKey(() => Product)
+  @ForeignKey(() => Product, { onDelete: 'restrict' })
   productId!: number;
 
   order?: Order;
@@ -1,5 +1,7 @@
 import 'reflect-metadata';
-import { Column, PrimaryKey, Table } from '../../src/decorators/column';
+import { Column, Index, ManyToMany, PrimaryKey, Table } from '../../src/decorators/column';
+import { ProductTag } from './productTag.model';
+import { Tag } from './tag.model';
 
 @Table('products')
 export class Product {
@@ -10,6 +12,7 @@ export class Product {
   @Column({ type: 'string' })
   name!: string;
 
+  @Index()
   @Column({ type: 'number' })
   price!: number;
 
@@ -18,4 +21,7 @@ export class Product {
 
   @Column({ type: 'boolean', default: true })
   isActive!: boolean;
+
+  @ManyToMany(() => Tag, () => ProductTag)
+  tags?: Tag[];
 }
\ No newline at end of file
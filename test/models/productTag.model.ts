@@ -9,10 +9,10 @@ export class ProductTag {
   @Column({ type: 'number' })
   id!: number;
 
-  @ForeignKey(() => Product)
+  @ForeignKey(() => Product, { onDelete: 'cascade' })
   productId!: number;
 
-  @ForeignKey(() => Tag)
+  @ForeignKey(() => Tag, { onDelete: 'cascade' })
   tagId!: number;
 
   product?: Product;
@@ -20,7 +20,16 @@ export class Profile {
   @Column({ type: 'date' })
   birthDate!: Date;
 
-  @ForeignKey(() => User)
+  @Column({ type: 'json', nullable: true })
+  preferences?: Record<string, any>;
+
+  @Column({ type: 'bigint', nullable: true })
+  followers?: bigint;
+
+  @Column({ type: 'buffer', nullable: true })
+  avatar?: Buffer;
+
+  @ForeignKey(() => User, { onDelete: 'cascade' })
   userId!: number;
 
   user?: User;
@@ -0,0 +1,18 @@
+import 'reflect-metadata';
+import { Column, ForeignKey, PrimaryKey, Table } from '../../src/decorators/column';
+import { Order } from './order.model';
+
+@Table('shipments')
+export class Shipment {
+  @PrimaryKey()
+  @Column({ type: 'number' })
+  id!: number;
+
+  @Column({ type: 'string' })
+  carrier!: string;
+
+  @ForeignKey(() => Order, { relatedProperty: 'orderNumber', navigation: 'shippedOrder', inverse: 'shipments' })
+  orderNumber!: string;
+
+  shippedOrder?: Order;
+}
\ No newline at end of file
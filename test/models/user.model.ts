@@ -1,6 +1,8 @@
 import 'reflect-metadata';
-import { Column, ForeignKey, PrimaryKey, Table } from '../../src/decorators/column';
+import { Column, ForeignKey, Index, PrimaryKey, Table } from '../../src/decorators/column';
 import { Department } from './department.model';
+import { Order } from './order.model';
+import { Profile } from './profile.model';
 
 @Table('users')
 export class User {
@@ -14,14 +16,17 @@ export class User {
   @Column({ type: 'string', unique: true })
   email!: string;
 
+  @Index()
   @Column({ type: 'number', nullable: true })
   age?: number;
 
   @Column({ type: 'date' })
   createdAt!: Date;
 
-  @ForeignKey(() => Department)
+  @ForeignKey(() => Department, { onDelete: 'setNull' })
   departmentId?: number;
 
   department?: Department;
+  orders?: Order[];
+  profile?: Profile;
 }
\ No newline at end of file
@@ -7,9 +7,9 @@ async function main() {
     await cleanDatabase();
     
     const runner = new TestRunner();
-    await runner.runAll();
+    const passed = await runner.runAll();
     
-    process.exit(0);
+    process.exit(passed ? 0 : 1);
   } catch (error) {
     console.error('\n❌ Test suite failed with error:', error);
     process.exit(1);
@@ -262,7 +262,7 @@ export async function run(runner: TestRunner): Promise<void> {
   await runner.test('Concurrent bulk operations', async () => {
     context = await createTestContext();
     
-    const bulkOperations = Array.from({ length: 3 }, (batch) => {
+    const bulkOperations = Array.from({ length: 3 }, (_, batch) => {
       const items = Array.from({ length: 20 }, (_, i) => ({
         name: `Batch${batch}-Item${i}`,
         color: `#${String(batch).padStart(2, '0')}${String(i).padStart(4, '0')}`
@@ -1,6 +1,8 @@
 import { TestRunner, assert, assertEqual, assertNotNull } from '../testRunner';
 import { createTestContext, seedTestData } from '../testUtils';
 import { AppDbContext } from '../../contexts/appDbContext';
+import { Order } from '../../models/order.model';
+import { UniqueConstraintError } from '../../../src/core/errors';
 
 export async function run(runner: TestRunner): Promise<void> {
   runner.startGroup('Entity CRUD Operations');
@@ -137,6 +139,177 @@ export async function run(runner: TestRunner): Promise<void> {
     assertEqual(order.userId, 1);
   });
 
+  await runner.test('Loaded entities are class instances', async () => {
+    const order = await context.orders.add({
+      orderNumber: 'ORD-OLD',
+      totalAmount: 10,
+      orderDate: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000),
+      status: 'pending',
+      userId: 1
+    });
+    await context.saveChanges();
+    assert(order instanceof Order, 'add() should return an Order');
+
+    const found = (await context.orders.find(order.id))!;
+    assert(found instanceof Order, 'find() should return an Order');
+    assertEqual(found.isOverdue, true);
+
+    const overdue = await context.orders.where(o => o.isOverdue).toArray();
+    assertEqual(overdue.map(o => o.orderNumber).join(','), 'ORD-OLD');
+
+    const plain = await context.orders.asPlain().where(o => o.orderNumber === 'ORD-OLD').toArray();
+    assertEqual(plain.length, 1);
+
+    const numbers = await context.orders.select(o => ({ number: o.orderNumber })).toArray();
+    assert(numbers.every(n => !(n instanceof Order)), 'select() should return what the selector builds');
+  });
+
+  await runner.test('Entities are copies of the stored rows', async () => {
+    const added = await context.tags.add({ name: 'Copied', color: '#123456' });
+    await context.saveChanges();
+
+    added.color = '#FFFFFF';
+    const found = (await context.tags.find(added.id))!;
+    assertEqual(found.color, '#123456');
+    assert(found !== added, 'find() should not return the added instance');
+
+    found.color = '#000000';
+    const queried = (await context.tags.where(t => t.name === 'Copied').first())!;
+    assertEqual(queried.color, '#123456');
+  });
+
+  await runner.test('Original values are the row an entity was read from', async () => {
+    const tag = (await context.tags.where(t => t.name === 'Copied').first())!;
+    const stored = await context['storageProvider'].getByKey!('tags', tag.id);
+    assert(context.changeTracker.getOriginalValues(tag) === stored, 'Reading should not copy the row again');
+
+    tag.color = '#ABCDEF';
+    assertEqual(context.entry(tag).originalValues!.color, '#123456');
+
+    const pending = await context.tags.add({ name: 'Pending', color: '#111111' });
+    const read = (await context.tags.where(t => t.name === 'Pending').first())!;
+    pending.color = '#222222';
+    assertEqual(context.entry(read).originalValues!.color, '#111111', 'A pending entity should be copied');
+    await context.tags.remove(pending);
+  });
+
+  await runner.test('Changes are deferred until saveChanges', async () => {
+    const dept = await context.departments.add({
+      name: 'Deferred',
+      description: 'Pending until saved'
+    });
+
+    const other = new AppDbContext();
+    await other.connect();
+    assertEqual(await other.departments.find(dept.id), null);
+
+    const written = await context.saveChanges();
+    assert(written > 0, 'saveChanges should report written entities');
+    assertEqual(context.changeTracker.hasChanges(), false);
+
+    const stored = await context['storageProvider'].getData('departments');
+    assert(stored.some(d => d.id === dept.id), 'Saved department should reach storage');
+
+    await other.dispose();
+  });
+
+  await runner.test('Pending changes are visible to queries', async () => {
+    const product = await context.products.add({
+      name: 'Pending Product',
+      price: 5,
+      stock: 1,
+      isActive: true
+    });
+
+    product.stock = 7;
+    await context.products.update(product);
+
+    const found = await context.products.where(p => p.name === 'Pending Product').first();
+    assertEqual(found!.stock, 7);
+
+    await context.products.remove(product);
+    assertEqual(await context.products.find(product.id), null);
+  });
+
+  await runner.test('rejectChanges discards pending work', async () => {
+    await context.saveChanges();
+    const before = await context.tags.count();
+
+    await context.tags.add({ name: 'Discarded', color: '#000000' });
+    assertEqual(await context.tags.count(), before + 1);
+
+    context.rejectChanges();
+    assertEqual(await context.tags.count(), before);
+    assertEqual(context.changeTracker.hasChanges(), false);
+  });
+
+  await runner.test('executeUpdate and executeDelete write matching rows at once', async () => {
+    const owner = await context.users.add({ name: 'Bulk Owner', email: 'bulk@test.com', createdAt: new Date() });
+    for (let day = 1; day <= 5; day++) {
+      await context.orders.add({
+        orderNumber: `BULK-${day}`,
+        totalAmount: day * 10,
+        orderDate: new Date(2020, 0, day),
+        status: 'shipped',
+        userId: owner.id
+      });
+    }
+    await context.saveChanges();
+
+    const executeBatch = context.executeBatch;
+    const batches: number[] = [];
+    context.executeBatch = async batch => {
+      batches.push(batch.getEntries().length);
+      return executeBatch.call(context, batch);
+    };
+
+    try {
+      const cutoff = new Date(2020, 0, 4);
+      const archived = await context.orders
+        .where((o, p) => o.userId === p.userId && o.orderDate < p.cutoff, { userId: owner.id, cutoff })
+        .executeUpdate(() => ({ status: 'archived' }));
+
+      assertEqual(archived, 3);
+      assertEqual(batches.join(), '3');
+      assertEqual(context.changeTracker.hasChanges(), false);
+      const statuses = await context.orders.where(o => o.orderNumber.startsWith('BULK-')).orderBy(o => o.orderNumber).select(o => o.status).toArray();
+      assertEqual(statuses.join(), 'archived,archived,archived,shipped,shipped');
+
+      const removed = await context.orders.where(o => o.status === 'archived').executeDelete();
+      assertEqual(removed, 3);
+      assertEqual(batches.join(), '3,3');
+      assertEqual(await context.orders.where(o => o.orderNumber.startsWith('BULK-')).count(), 2);
+    } finally {
+      context.executeBatch = executeBatch;
+    }
+  });
+
+  await runner.test('executeUpdate enforces unique indexes and refuses unsaved rows', async () => {
+    let error: any;
+    try {
+      await context.orders.where(o => o.orderNumber.startsWith('BULK-')).executeUpdate(() => ({ orderNumber: 'BULK-SAME' }));
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof UniqueConstraintError, 'Rows of one update should not share a unique value');
+    const numbers = await context.orders.where(o => o.orderNumber.startsWith('BULK-')).orderBy(o => o.orderNumber).select(o => o.orderNumber).toArray();
+    assertEqual(numbers.join(), 'BULK-4,BULK-5');
+
+    const pending = (await context.orders.where(o => o.orderNumber === 'BULK-4').first())!;
+    pending.totalAmount = 0;
+    await context.orders.update(pending);
+
+    error = undefined;
+    try {
+      await context.orders.where(o => o.orderNumber.startsWith('BULK-')).executeDelete();
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error && /saveChanges/.test(error.message), 'Rows with pending changes should be refused');
+    context.rejectChanges();
+    assertEqual(await context.orders.where(o => o.orderNumber.startsWith('BULK-')).count(), 2);
+  });
+
   await context.dispose();
   
   runner.endGroup();
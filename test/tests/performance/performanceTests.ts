@@ -158,6 +158,7 @@ export async function run(runner: TestRunner): Promise<void> {
       { name: 'cache-test-2', color: '#00FF00' },
       { name: 'cache-test-3', color: '#0000FF' }
     ]);
+    await context.saveChanges();
     
     const miss1Start = performance.now();
     await context.tags.toArray();
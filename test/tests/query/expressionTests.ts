@@ -0,0 +1,80 @@
+import { TestRunner, assert, assertEqual } from '../testRunner';
+import { createTestContext, seedTestData } from '../testUtils';
+import { AppDbContext } from '../../contexts/appDbContext';
+import { ExpressionParser } from '../../../src/query/expression-parser';
+
+export async function run(runner: TestRunner): Promise<void> {
+  runner.startGroup('Predicate Analysis');
+
+  let context: AppDbContext;
+
+  context = await createTestContext();
+  await seedTestData(context);
+
+  await runner.test('Analyzes comparisons and logical operators', async () => {
+    const tree = ExpressionParser.analyze((u: any) => u.age > 30 && (u.status === 'active' || 18 >= u.age));
+
+    assertEqual(JSON.stringify(tree), JSON.stringify({
+      kind: 'and',
+      operands: [
+        { kind: 'comparison', property: 'age', op: 'gt', value: 30 },
+        {
+          kind: 'or',
+          operands: [
+            { kind: 'comparison', property: 'status', op: 'eq', value: 'active' },
+            { kind: 'comparison', property: 'age', op: 'lte', value: 18 }
+          ]
+        }
+      ]
+    }));
+  });
+
+  await runner.test('Reads captured parameters from args', async () => {
+    const tree = ExpressionParser.analyze((p: any, args: any) => p.price <= args.limits.max, { limits: { max: 100 } });
+    assertEqual(JSON.stringify(tree), JSON.stringify({ kind: 'comparison', property: 'price', op: 'lte', value: 100 }));
+
+    const products = await context.products
+      .where((p, args) => p.price <= args.max && p.isActive === args.active, { max: 100, active: true })
+      .toArray();
+    assertEqual(products.map(p => p.name).sort().join(','), 'Keyboard,Mouse');
+  });
+
+  await runner.test('Unanalyzable lambdas fall back to in-memory filtering', async () => {
+    const prefix = 'A';
+    assertEqual(ExpressionParser.analyze((u: any) => u.name.startsWith(prefix)), undefined);
+    assertEqual(ExpressionParser.analyze((u: any) => u.age > prefix.length || u.name.startsWith(prefix)), undefined);
+
+    const partial = ExpressionParser.analyze((u: any) => u.name.startsWith(prefix) && u.age > 20);
+    assertEqual(JSON.stringify(partial), JSON.stringify({ kind: 'comparison', property: 'age', op: 'gt', value: 20 }));
+
+    const users = await context.users.where(u => u.name.startsWith(prefix) && u.age! > 20).toArray();
+    assertEqual(users.length, 1);
+    assertEqual(users[0].name, 'Alice Johnson');
+  });
+
+  await runner.test('Range predicates use the index', async () => {
+    await context.products.where(p => p.price > 0).toArray();
+
+    const getData = context.getData;
+    let tableReads = 0;
+    context.getData = async (tableName: string) => {
+      tableReads++;
+      return getData.call(context, tableName);
+    };
+
+    try {
+      const products = await context.products.where(p => p.price > 50 && p.price < 500).toArray();
+      assertEqual(products.map(p => p.name).sort().join(','), 'Keyboard,Monitor');
+
+      const either = await context.products.where(p => p.price === 29.99 || p.price >= 999).toArray();
+      assertEqual(either.map(p => p.name).sort().join(','), 'Laptop,Mouse');
+      assert(tableReads === 0, 'Indexed predicates should not read the table');
+    } finally {
+      context.getData = getData;
+    }
+  });
+
+  await context.dispose();
+
+  runner.endGroup();
+}
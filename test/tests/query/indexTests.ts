@@ -0,0 +1,168 @@
+import { TestRunner, assert, assertEqual, assertThrows } from '../testRunner';
+import { createTestContext, seedTestData } from '../testUtils';
+import { AppDbContext } from '../../contexts/appDbContext';
+
+export async function run(runner: TestRunner): Promise<void> {
+  runner.startGroup('Indexes');
+
+  let context: AppDbContext;
+
+  context = await createTestContext();
+  await seedTestData(context);
+
+  await runner.test('Equality where uses the index', async () => {
+    await context.users.where(u => u.age === 30).toArray();
+
+    const getData = context.getData;
+    let tableReads = 0;
+    context.getData = async (tableName: string) => {
+      tableReads++;
+      return getData.call(context, tableName);
+    };
+
+    try {
+      const users = await context.users.where(u => u.age === 30).toArray();
+      assertEqual(users.length, 1);
+      assertEqual(users[0].name, 'Alice Johnson');
+      assertEqual(tableReads, 0, 'Indexed lookup should not read the table');
+    } finally {
+      context.getData = getData;
+    }
+  });
+
+  await runner.test('Index follows add, update and remove', async () => {
+    const dave = await context.users.add({
+      name: 'Dave',
+      email: 'dave@test.com',
+      age: 41,
+      createdAt: new Date()
+    });
+    assertEqual((await context.users.where(u => u.age === 41).toArray()).length, 1);
+
+    dave.age = 42;
+    await context.users.update(dave);
+    assertEqual((await context.users.where(u => u.age === 41).toArray()).length, 0);
+    assertEqual((await context.users.where(u => u.age === 42).toArray()).length, 1);
+
+    await context.users.remove(dave);
+    assertEqual((await context.users.where(u => u.age === 42).toArray()).length, 0);
+
+    await context.saveChanges();
+  });
+
+  await runner.test('Index follows edits made before saveChanges', async () => {
+    await context.users.where(u => u.age === 50).toArray();
+
+    const erin = await context.users.add({
+      name: 'Erin',
+      email: 'erin@test.com',
+      age: 50,
+      createdAt: new Date()
+    });
+    erin.age = 51;
+    await context.saveChanges();
+
+    assertEqual((await context.users.where(u => u.age === 50).toArray()).length, 0);
+    assertEqual((await context.users.where(u => u.age === 51).toArray()).length, 1);
+
+    await context.users.remove(erin);
+    await context.saveChanges();
+  });
+
+  await runner.test('Compound index lookup', async () => {
+    await context.orders.addRange([
+      { orderNumber: 'IDX-1', totalAmount: 10, orderDate: new Date(), status: 'pending', userId: 1 },
+      { orderNumber: 'IDX-2', totalAmount: 20, orderDate: new Date(), status: 'shipped', userId: 1 },
+      { orderNumber: 'IDX-3', totalAmount: 30, orderDate: new Date(), status: 'pending', userId: 2 }
+    ]);
+
+    const orders = await context.orders
+      .where(o => o.userId === 1)
+      .where(o => o.status === 'pending')
+      .toArray();
+
+    assertEqual(orders.length, 1);
+    assertEqual(orders[0].orderNumber, 'IDX-1');
+    assertEqual((await context.orders.where(o => o.userId === 1).toArray()).length, 2);
+  });
+
+  await runner.test('Range filter with between', async () => {
+    const products = await context.products
+      .between(p => p.price, 50, 500)
+      .orderBy(p => p.price)
+      .toArray();
+
+    assertEqual(products.map(p => p.name).join(','), 'Keyboard,Monitor');
+
+    const inStock = await context.products.between(p => p.stock, 1, 60).toArray();
+    assertEqual(inStock.length, 1);
+    assertEqual(inStock[0].name, 'Laptop');
+  });
+
+  await runner.test('Range lookups keep rows a scan would match', async () => {
+    const added = [
+      await context.users.add({ name: 'No Age', email: 'noage@test.com', createdAt: new Date() }),
+      await context.users.add({ name: 'Null Age', email: 'nullage@test.com', age: null as any, createdAt: new Date() })
+    ];
+
+    const scanned = (await context.users.toArray()).filter(u => u.age! >= 0).map(u => u.name).sort();
+    const indexed = (await context.users.where(u => u.age! >= 0).toArray()).map(u => u.name).sort();
+    assertEqual(indexed.join(), scanned.join());
+    assert(indexed.includes('Null Age'), 'null >= 0 holds in JavaScript');
+
+    const positive = await context.users.where(u => u.age! > 0).toArray();
+    assertEqual(positive.some(u => u.name === 'Null Age'), false);
+
+    for (const user of added) {
+      await context.users.remove(user);
+    }
+  });
+
+  await runner.test('orderBy reads in index order', async () => {
+    const cheapest = await context.products.orderBy(p => p.price).take(2).toArray();
+    assertEqual(cheapest.map(p => p.name).join(','), 'Mouse,Keyboard');
+
+    const priciest = await context.products
+      .where(p => p.isActive === true)
+      .orderByDescending(p => p.price)
+      .take(1)
+      .toArray();
+    assertEqual(priciest[0].name, 'Laptop');
+  });
+
+  await runner.test('Unique index rejects duplicates', async () => {
+    await assertThrows(async () => {
+      await context.orders.add({
+        orderNumber: 'IDX-1',
+        totalAmount: 99,
+        orderDate: new Date(),
+        status: 'pending',
+        userId: 2
+      });
+    });
+
+    const order = (await context.orders.where(o => o.orderNumber === 'IDX-2').first())!;
+    await assertThrows(async () => {
+      await context.orders.update({ ...order, orderNumber: 'IDX-3' });
+    });
+    await context.orders.update({ ...order, totalAmount: 25 });
+  });
+
+  await runner.test('Indexes are rebuilt after rollback', async () => {
+    const transaction = context.beginTransaction();
+    await context.products.add({ name: 'Cable', price: 4.99, stock: 10, isActive: true });
+    assertEqual((await context.products.between(p => p.price, 0, 5).toArray()).length, 1);
+
+    await transaction.rollback();
+    assertEqual((await context.products.between(p => p.price, 0, 5).toArray()).length, 0);
+
+    await context.products.add({ name: 'Adapter', price: 3.99, stock: 5, isActive: true });
+    context.rejectChanges();
+    assert(!(await context.products.any(p => p.name === 'Adapter')), 'Rejected row should be gone');
+    assertEqual((await context.products.between(p => p.price, 0, 5).toArray()).length, 0);
+  });
+
+  await context.dispose();
+
+  runner.endGroup();
+}
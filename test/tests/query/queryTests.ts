@@ -1,6 +1,11 @@
-import { TestRunner, assert, assertEqual } from '../testRunner';
+import { TestRunner, assert, assertEqual, assertNotNull } from '../testRunner';
 import { createTestContext, seedTestData } from '../testUtils';
 import { AppDbContext } from '../../contexts/appDbContext';
+import { dbConfig } from '../../db.config';
+import { compareValues } from '../../../src/query/comparer';
+import { Product } from '../../models/product.model';
+import { Tag } from '../../models/tag.model';
+import { DbSet } from '../../../src/core/dbSet';
 
 export async function run(runner: TestRunner): Promise<void> {
   runner.startGroup('Modern Query System');
@@ -154,6 +159,26 @@ export async function run(runner: TestRunner): Promise<void> {
     assert(products[0].isActive === false || products[products.length - 1].isActive === true, "Should order by isActive first, then by price descending");
   });
   
+  await runner.test('thenBy breaks ties of the first key', async () => {
+    const products = await context.products
+      .orderByDescending(p => p.isActive)
+      .thenBy(p => p.name)
+      .toArray();
+
+    assertEqual(products.map(p => p.name).join(), 'Keyboard,Laptop,Mouse,Monitor');
+  });
+
+  await runner.test('orderBy with a comparer', async () => {
+    const name = (p: { name: string }) => p.name === 'Mouse' ? 'mouse' : p.name;
+
+    const ordinal = await context.products.orderBy(name).toArray();
+    assertEqual(ordinal[ordinal.length - 1].name, 'Mouse', 'Lowercase sorts after uppercase by default');
+
+    const caseInsensitive = { compare: (a: string, b: string) => compareValues(a.toLowerCase(), b.toLowerCase()) };
+    const sorted = await context.products.orderBy(name, caseInsensitive).toArray();
+    assertEqual(sorted.map(p => p.name).join(), 'Keyboard,Laptop,Monitor,Mouse');
+  });
+  
   await runner.test('Skip and Take', async () => {
     const products = await context.products
       .orderBy(p => p.price)
@@ -242,6 +267,17 @@ export async function run(runner: TestRunner): Promise<void> {
     
     assertEqual(minPrice, 29.99);
     assertEqual(maxPrice, 999.99);
+
+    const none = context.products.where(p => p.price < 0);
+    for (const extreme of [() => none.min(p => p.price), () => none.max(p => p.price)]) {
+      let error: any;
+      try {
+        await extreme();
+      } catch (e) {
+        error = e;
+      }
+      assert(error instanceof Error && error.message === 'Sequence contains no elements', 'An empty sequence has no minimum or maximum');
+    }
   });
   
   await runner.test('Any with predicate', async () => {
@@ -266,19 +302,87 @@ export async function run(runner: TestRunner): Promise<void> {
   
   await runner.test('GroupBy basic', async () => {
     const byActive = await context.products
-      .groupBy(p => p.isActive);
+      .groupBy(p => p.isActive)
+      .toArray();
     
-    assertEqual(byActive.size, 2); 
-    assert(byActive.has(true), 'Should have active products');
-    assert(byActive.has(false), 'Should have inactive products');
+    assertEqual(byActive.length, 2); 
+    assert(byActive.some(g => g.key === true), 'Should have active products');
+    assert(byActive.some(g => g.key === false), 'Should have inactive products');
   });
   
   await runner.test('GroupBy with filtering', async () => {
     const expensiveByActive = await context.products
       .where(p => p.price > 50)
-      .groupBy(p => p.isActive);
+      .groupBy(p => p.isActive)
+      .toArray();
     
-    assert(expensiveByActive.size <= 2, "Grouping exceeds price listing");
+    assert(expensiveByActive.length <= 2, "Grouping exceeds price listing");
+  });
+
+  await runner.test('GroupBy aggregates with having, orderBy and take', async () => {
+    const groups = await context.products
+      .groupBy(p => p.isActive)
+      .where(g => g.count() > 1)
+      .orderByDescending(g => g.sum(p => p.stock))
+      .take(1)
+      .select(g => ({ active: g.key, stock: g.sum(p => p.stock), n: g.count(), top: g.max(p => p.price) }))
+      .toArray();
+
+    assertEqual(groups.length, 1);
+    assertEqual(groups[0].active, true);
+    assertEqual(groups[0].stock, 225);
+    assertEqual(groups[0].n, 3);
+    assertEqual(groups[0].top, 999.99);
+
+    const [active] = await context.products.groupBy(p => p.isActive).where(g => g.key === true).toArray();
+    assertEqual(active.average(p => p.stock), 75);
+    assertEqual([1, 10].map(factor => active.sum(p => p.stock * factor)).join(), '225,2250');
+
+    const averages = await context.products
+      .groupBy(p => p.isActive)
+      .orderBy(g => g.key)
+      .select(g => ({ stock: g.count() > 1 ? g.sum(p => p.stock) / g.count() : 0 }))
+      .toArray();
+    assertEqual(averages.map(a => a.stock).join(), '0,75');
+
+    const withRows = await context.products
+      .groupBy(p => p.isActive)
+      .orderBy(g => g.key)
+      .select(g => ({ key: g.key, names: g.toArray().map(p => p.name) }))
+      .toArray();
+    assertEqual(withRows[0].names.join(), 'Monitor');
+  });
+
+  await runner.test('GroupBy keeps running totals for declared aggregates', async () => {
+    const stock = (p: Product) => p.stock;
+    const cheap = (p: Product) => p.price < 100;
+    const groups = await context.products
+      .groupBy(p => p.isActive, [stock, cheap])
+      .where(g => g.count() > 1)
+      .select(g => ({ stock: g.sum(stock), average: g.average(stock), cheap: g.count(cheap) }))
+      .toArray();
+
+    assertEqual(groups.length, 1);
+    assertEqual(groups[0].stock, 225);
+    assertEqual(groups[0].average, 75);
+    assertEqual(groups[0].cheap, 2);
+
+    const [active] = await context.products.groupBy(p => p.isActive, [stock]).where(g => g.key === true).toArray();
+    let error: any;
+    try {
+      active.toArray();
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error, 'A group with running totals should not keep its rows');
+    assertEqual(active.sum(stock), 225);
+  });
+
+  await runner.test('toLookup returns a Map of groups', async () => {
+    const byActive = await context.products.toLookup(p => p.isActive);
+
+    assertEqual(byActive.size, 2);
+    assertEqual(byActive.get(true)!.length, 3);
   });
   
   await runner.test('Distinct products', async () => {
@@ -286,6 +390,54 @@ export async function run(runner: TestRunner): Promise<void> {
     assertEqual(distinctProducts.length, 4);
   });
   
+  await runner.test('Set operators and distinctBy', async () => {
+    const active = context.products.where(p => p.isActive === true);
+    const cheap = context.products.where(p => p.price < 100);
+
+    assertEqual((await active.concat(cheap).toArray()).length, 5);
+    assertEqual((await active.union(cheap).toArray()).length, 3);
+    assertEqual((await active.intersect(cheap).orderBy(p => p.name).toArray()).map(p => p.name).join(), 'Keyboard,Mouse');
+    assertEqual((await active.except(cheap).toArray()).map(p => p.name).join(), 'Laptop');
+    assertEqual((await context.products.distinctBy(p => p.isActive).toArray()).length, 2);
+
+    const upper = context.products.select(p => p.name.toUpperCase());
+    const lower = context.products.select(p => p.name.toLowerCase());
+    assertEqual((await upper.union(lower).toArray()).length, 8);
+    assertEqual((await upper.union(lower, { hash: name => name.toLowerCase() }).toArray()).length, 4);
+  });
+
+  await runner.test('Set operators compare entities of different tables by content', async () => {
+    const db = new AppDbContext({
+      ...dbConfig,
+      connectionString: 'memory://',
+      entities: { ...dbConfig.entities, archivedTags: { type: Tag, tableName: 'archivedTags' } }
+    });
+    await db.connect();
+    const archived: DbSet<Tag> = (db as any).archivedTags;
+
+    await db.tags.addRange([{ name: 'Live', color: '#00FF00' }, { name: 'Other', color: '#0000FF' }]);
+    const [, old] = await archived.addRange([{ name: 'Live', color: '#00FF00' }, { name: 'Archived', color: '#FF0000' }]);
+    await db.saveChanges();
+    assertEqual((await db.tags.find(old.id))!.name, 'Other', 'The tables should share keys');
+
+    assertEqual((await db.tags.union(archived).orderBy(t => t.name).toArray()).map(t => t.name).join(), 'Archived,Live,Other');
+    assertEqual((await db.tags.intersect(archived).toArray()).map(t => t.name).join(), 'Live');
+    assertEqual((await archived.except(db.tags).toArray()).map(t => t.name).join(), 'Archived');
+    assertEqual((await db.tags.union(db.tags.where(t => t.name === 'Live')).toArray()).length, 2);
+
+    await db.dispose();
+  });
+
+  await runner.test('Distinct compares by content and keeps dates', async () => {
+    const day = new Date('2024-01-01');
+    const rows = await context.products
+      .select(p => p.isActive ? { active: true, since: day } : { since: new Date(day), active: false })
+      .distinct();
+
+    assertEqual(rows.length, 2);
+    assert(rows.every(row => row.since instanceof Date), 'Dates should survive distinct');
+  });
+  
   await runner.test('Complex query chain', async () => {
     const results = await context.products
       .where(p => p.isActive === true)
@@ -399,6 +551,127 @@ export async function run(runner: TestRunner): Promise<void> {
     assert(inactiveProductsAvgPrice >= 0, "");
   });
   
+  await runner.test('join, groupJoin and selectMany', async () => {
+    const alice = (await context.users.where(u => u.name === 'Alice Johnson').first())!;
+    const bob = (await context.users.where(u => u.name === 'Bob Smith').first())!;
+    await context.orders.addRange([
+      { orderNumber: 'JOIN-1', totalAmount: 10, orderDate: new Date(), status: 'pending', userId: alice.id },
+      { orderNumber: 'JOIN-2', totalAmount: 30, orderDate: new Date(), status: 'pending', userId: alice.id },
+      { orderNumber: 'JOIN-3', totalAmount: 20, orderDate: new Date(), status: 'pending', userId: bob.id }
+    ]);
+
+    const joined = await context.users
+      .join(context.orders, u => u.id, o => o.userId, (u, o) => ({ name: u.name, total: o.totalAmount }))
+      .where(row => row.total > 15)
+      .orderByDescending(row => row.total)
+      .take(1)
+      .toArray();
+    assertEqual(joined.length, 1);
+    assertEqual(joined[0].name, 'Alice Johnson');
+    assertEqual(joined[0].total, 30);
+
+    const usersWithOrders = await context.users
+      .groupJoin(context.orders.where(o => o.orderNumber.startsWith('JOIN-')), u => u.id, o => o.userId,
+        (user, orders) => ({ name: user.name, count: orders.length }))
+      .where(row => row.count > 0)
+      .orderBy(row => row.name)
+      .toArray();
+    assertEqual(usersWithOrders.map(row => `${row.name}:${row.count}`).join(), 'Alice Johnson:2,Bob Smith:1');
+
+    const numbers = await context.users
+      .where(u => u.id === alice.id)
+      .selectMany(u => context.orders.where((o, p) => o.userId === p.id, { id: u.id }), (u, o) => o.orderNumber)
+      .orderBy(orderNumber => orderNumber)
+      .toArray();
+    assertEqual(numbers.join(), 'JOIN-1,JOIN-2');
+  });
+  
+  await runner.test('Async iteration, forEachAsync and chunk', async () => {
+    const names: string[] = [];
+    for await (const product of context.products.where(p => p.isActive === true)) {
+      names.push(product.name);
+    }
+    assertEqual(names.sort().join(), 'Keyboard,Laptop,Mouse');
+
+    let read = 0;
+    for await (const product of context.products.where(p => ++read > 0)) {
+      assertNotNull(product);
+      break;
+    }
+    assertEqual(read, 1, 'Leaving the loop should stop reading rows');
+
+    read = 0;
+    await context.products.where(p => ++read > 0).forEachAsync(async (product, index) => index < 1);
+    assertEqual(read, 2, 'Returning false should stop forEachAsync');
+
+    const sizes: number[] = [];
+    for await (const batch of context.products.chunk(3)) {
+      sizes.push(batch.length);
+    }
+    assertEqual(sizes.join(), '3,1');
+
+    const owners: string[] = [];
+    for await (const order of context.orders.where(o => o.orderNumber.startsWith('JOIN-')).include(o => o.user)) {
+      owners.push(`${order.orderNumber}:${order.user!.name}`);
+    }
+    assertEqual(owners.sort().join(), 'JOIN-1:Alice Johnson,JOIN-2:Alice Johnson,JOIN-3:Bob Smith');
+
+    let error: any;
+    try {
+      context.products.chunk(0);
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error, 'chunk(0) should throw');
+  });
+
+  await runner.test('Iteration visits the rows present when it starts', async () => {
+    const memory = new AppDbContext({ ...dbConfig, connectionString: 'memory://' });
+    await memory.connect();
+
+    try {
+      for (const db of [context, memory]) {
+        await db.tags.addRange([{ name: 'Iterated 1', color: '#111111' }, { name: 'Iterated 2', color: '#222222' }]);
+        await db.saveChanges();
+        const before = await db.tags.count();
+
+        let visited = 0;
+        for await (const tag of db.tags) {
+          await db.tags.add({ name: `${tag.name} copy`, color: tag.color });
+          await db.saveChanges();
+          if (++visited > before) break;
+        }
+        assertEqual(visited, before);
+        assertEqual(await db.tags.count(), before * 2);
+      }
+    } finally {
+      await memory.dispose();
+    }
+  });
+  
+  await runner.test('Terminal operators stop early and skip unused work', async () => {
+    let read = 0;
+    assertEqual(await context.products.where(p => ++read > 0).any(), true);
+    assertEqual(read, 1, 'any() should stop at the first row');
+
+    read = 0;
+    assertEqual(await context.products.where(p => ++read > 0).all(p => p.price > 500), false);
+    assert(read < 4, 'all() should stop at the first failure');
+
+    const failing = context.products.select((p): number => { throw new Error(`Projected ${p.name}`); });
+    assertEqual(await failing.count(), 4, 'count() should not project');
+    assertEqual(await failing.any(), true, 'any() should not project');
+
+    assertEqual(await context.products.select(p => p.price).any(price => price > 900), true);
+    assertEqual(await context.products.orderBy(p => p.price).take(2).any(p => p.price > 100), false);
+
+    const values = Array.from({ length: 50_000 }, (_, i) => i);
+    const many = context.products.selectMany(() => values);
+    assertEqual(await many.max(v => v), 49_999);
+    assertEqual(await many.min(v => v), 0);
+    assertEqual(await many.count(), 200_000);
+  });
+  
   await context.dispose();
   
   runner.endGroup();
@@ -1,4 +1,9 @@
 import { TestRunner, assert, assertEqual, assertNotNull } from '../testRunner';
+import { ForeignKeyViolationError } from '../../../src/core/errors';
+import { LazyEntity } from '../../../src/core/lazyLoading';
+import { dbConfig } from '../../db.config';
+import { Order } from '../../models/order.model';
+import { User } from '../../models/user.model';
 import { createTestContext } from '../testUtils';
 import { AppDbContext } from '../../contexts/appDbContext';
 
@@ -108,6 +113,35 @@ export async function run(runner: TestRunner): Promise<void> {
     assertEqual(laptopTags.length, 2);
   });
   
+  await runner.test('Many-to-Many: skip navigation through ProductTag', async () => {
+    const [sale, featured, clearance] = await context.tags.addRange([
+      { name: 'sale', color: '#00FF00' },
+      { name: 'featured', color: '#FFFF00' },
+      { name: 'clearance', color: '#FF00FF' }
+    ]);
+    const lamp = await context.products.add({ name: 'Desk Lamp', price: 35, stock: 12, isActive: true, tags: [sale, featured] });
+    await context.saveChanges();
+
+    const links = await context.productTags.where(pt => pt.productId === lamp.id).toArray();
+    assertEqual(links.length, 2, 'Adding a product with tags should create join rows');
+
+    const loaded = (await context.products.where(p => p.id === lamp.id).include(p => p.tags).first())!;
+    assertEqual(loaded.tags!.map(t => t.name).sort().join(','), 'featured,sale');
+
+    loaded.tags = loaded.tags!.filter(t => t.name !== 'sale');
+    loaded.tags.push(clearance);
+    await context.products.update(loaded);
+    await context.saveChanges();
+
+    const reloaded = (await context.products.where(p => p.id === lamp.id).include(p => p.tags).first())!;
+    assertEqual(reloaded.tags!.map(t => t.name).sort().join(','), 'clearance,featured');
+    assertEqual((await context.productTags.where(pt => pt.productId === lamp.id).count()), 2);
+
+    await context.products.update(reloaded);
+    await context.saveChanges();
+    assertEqual((await context.productTags.where(pt => pt.productId === lamp.id).count()), 2, 'Unchanged collections should not touch join rows');
+  });
+
   await runner.test('Self-referencing: Category hierarchy', async () => {
     const electronics = await context.categories.add({
       name: 'Electronics',
@@ -186,6 +220,264 @@ export async function run(runner: TestRunner): Promise<void> {
                 orderItems[1].quantity * orderItems[1].unitPrice, 120.00);
   });
   
+  await runner.test('Collection include: Order-OrderItems', async () => {
+    const product = await context.products.add({ name: 'Gadget', price: 10, stock: 5, isActive: true });
+    const user = await context.users.add({ name: 'Include User', email: 'include@test.com', createdAt: new Date() });
+    const [withItems, withoutItems] = await context.orders.addRange([
+      { orderNumber: 'INC-001', totalAmount: 30, orderDate: new Date(), status: 'pending', userId: user.id },
+      { orderNumber: 'INC-002', totalAmount: 0, orderDate: new Date(), status: 'pending', userId: user.id }
+    ]);
+    await context.orderItems.addRange([
+      { quantity: 1, unitPrice: 10, orderId: withItems.id, productId: product.id },
+      { quantity: 2, unitPrice: 10, orderId: withItems.id, productId: product.id }
+    ]);
+
+    const getDataWhere = context.getDataWhere;
+    const lookups: string[] = [];
+    context.getDataWhere = async (tableName, primaryKey, predicate) => {
+      lookups.push(tableName);
+      return getDataWhere.call(context, tableName, primaryKey, predicate);
+    };
+
+    try {
+      const orders = await context.orders
+        .where(o => o.orderNumber.startsWith('INC-'))
+        .orderBy(o => o.orderNumber)
+        .include(o => o.orderItems)
+        .toArray();
+
+      assertEqual(orders[0].orderItems!.length, 2);
+      assertEqual(orders[0].orderItems!.reduce((sum, item) => sum + item.quantity, 0), 3);
+      assertEqual(orders[1].orderItems!.length, 0);
+      assertEqual(lookups.filter(table => table === 'orderItems').length, 1, 'Children should be read in one lookup');
+    } finally {
+      context.getDataWhere = getDataWhere;
+    }
+
+    const users = await context.users.where(u => u.id === user.id).include(u => u.orders).toArray();
+    assertEqual(users[0].orders!.length, 2);
+  });
+
+  await runner.test('Nested include with thenInclude', async () => {
+    const dept = await context.departments.add({ name: 'Nested Dept' });
+    const user = await context.users.add({
+      name: 'Nested User',
+      email: 'nested@test.com',
+      createdAt: new Date(),
+      departmentId: dept.id
+    });
+    await context.profiles.add({ bio: 'Nested bio', birthDate: new Date('1985-02-03'), userId: user.id });
+
+    const [keyboard, screen] = await context.products.addRange([
+      { name: 'Nested Keyboard', price: 40, stock: 3, isActive: true },
+      { name: 'Nested Screen', price: 200, stock: 2, isActive: true }
+    ]);
+    const orders = await context.orders.addRange([
+      { orderNumber: 'NEST-001', totalAmount: 240, orderDate: new Date(), status: 'pending', userId: user.id },
+      { orderNumber: 'NEST-002', totalAmount: 40, orderDate: new Date(), status: 'pending', userId: user.id }
+    ]);
+    await context.orderItems.addRange([
+      { quantity: 1, unitPrice: 40, orderId: orders[0].id, productId: keyboard.id },
+      { quantity: 1, unitPrice: 200, orderId: orders[0].id, productId: screen.id },
+      { quantity: 1, unitPrice: 40, orderId: orders[1].id, productId: keyboard.id }
+    ]);
+
+    const getDataWhere = context.getDataWhere;
+    const lookups: string[] = [];
+    context.getDataWhere = async (tableName, primaryKey, predicate) => {
+      lookups.push(tableName);
+      return getDataWhere.call(context, tableName, primaryKey, predicate);
+    };
+
+    try {
+      const loaded = await context.orders
+        .where(o => o.userId === user.id)
+        .orderBy(o => o.orderNumber)
+        .include(o => o.orderItems)
+        .thenInclude(i => i.product)
+        .toArray();
+
+      assertEqual(loaded[0].orderItems!.map(i => i.product!.name).sort().join(','), 'Nested Keyboard,Nested Screen');
+      assertEqual(loaded[1].orderItems![0].product!.name, 'Nested Keyboard');
+      assertEqual(lookups.filter(table => table === 'orderItems').length, 1, 'Each level should be read in one lookup');
+    } finally {
+      context.getDataWhere = getDataWhere;
+    }
+
+    const users = await context.users
+      .where(u => u.id === user.id)
+      .include(u => u.department)
+      .include(u => u.profile)
+      .include(u => u.orders)
+      .thenInclude(o => o.orderItems)
+      .toArray();
+
+    assertEqual(users[0].department!.name, 'Nested Dept');
+    assertEqual(users[0].profile!.bio, 'Nested bio');
+    assertEqual(users[0].orders!.flatMap(o => o.orderItems!).length, 3);
+  });
+
+  await runner.test('Explicit foreign key navigation and related property', async () => {
+    const user = await context.users.add({ name: 'Shipping User', email: 'shipping@test.com', createdAt: new Date() });
+    const order = await context.orders.add({
+      orderNumber: 'SHIP-001',
+      totalAmount: 50,
+      orderDate: new Date(),
+      status: 'shipped',
+      userId: user.id
+    });
+    await context.shipments.addRange([
+      { carrier: 'Courier', orderNumber: 'SHIP-001' },
+      { carrier: 'Post', orderNumber: 'SHIP-001' }
+    ]);
+
+    const shipments = await context.shipments.include(s => s.shippedOrder).toArray();
+    assertEqual(shipments.length, 2);
+    assertEqual(shipments[0].shippedOrder!.id, order.id);
+
+    const orders = await context.orders.where(o => o.id === order.id).include(o => o.shipments).toArray();
+    assertEqual(orders[0].shipments!.map(s => s.carrier).sort().join(','), 'Courier,Post');
+  });
+
+  await runner.test('Delete rules: cascade, restrict and setNull', async () => {
+    const dept = await context.departments.add({ name: 'Closing Dept' });
+    const user = await context.users.add({
+      name: 'Leaving User',
+      email: 'leaving@test.com',
+      createdAt: new Date(),
+      departmentId: dept.id
+    });
+    await context.profiles.add({ bio: 'Leaving', birthDate: new Date('1970-01-01'), userId: user.id });
+    const order = await context.orders.add({
+      orderNumber: 'DEL-001',
+      totalAmount: 5,
+      orderDate: new Date(),
+      status: 'pending',
+      userId: user.id
+    });
+    const product = await context.products.add({ name: 'Delete Widget', price: 5, stock: 1, isActive: true });
+    await context.orderItems.add({ quantity: 1, unitPrice: 5, orderId: order.id, productId: product.id });
+    await context.saveChanges();
+
+    let error: any;
+    try {
+      await context.users.remove(user);
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof ForeignKeyViolationError, 'Should throw ForeignKeyViolationError');
+    assertEqual(error.tableName, 'orders');
+    assertEqual(error.relatedTableName, 'users');
+    assertNotNull(await context.profiles.where(p => p.userId === user.id).first());
+
+    await context.orders.remove(order);
+    assertEqual(await context.orderItems.where(i => i.orderId === order.id).count(), 0, 'Items should cascade with their order');
+
+    await context.users.remove(user);
+    assertEqual(await context.profiles.where(p => p.userId === user.id).count(), 0, 'Profile should cascade with its user');
+
+    await context.users.add({ name: 'Staying User', email: 'staying@test.com', createdAt: new Date(), departmentId: dept.id });
+    await context.departments.remove(dept);
+    const staying = (await context.users.where(u => u.email === 'staying@test.com').first())!;
+    assertEqual(staying.departmentId, null);
+
+    await context.saveChanges();
+    assertEqual(await context.orders.find(order.id), null);
+  });
+
+  await runner.test('Enforced foreign keys reject missing rows', async () => {
+    let error: any;
+    try {
+      await context.orderItems.add({ quantity: 1, unitPrice: 1, orderId: 424242, productId: 1 });
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof ForeignKeyViolationError, 'Should throw ForeignKeyViolationError');
+    assertEqual(error.relatedTableName, 'orders');
+    assertEqual(error.value, 424242);
+  });
+
+  await runner.test('Lazy loading with $load', async () => {
+    const lazy = new AppDbContext({ ...dbConfig, connectionString: 'memory://', lazyLoading: true });
+    await lazy.connect();
+
+    try {
+      const dept = await lazy.departments.add({ name: 'Lazy Dept' });
+      const user = await lazy.users.add({ name: 'Lazy User', email: 'lazy@test.com', createdAt: new Date(), departmentId: dept.id });
+      await lazy.orders.add({ orderNumber: 'LAZY-001', totalAmount: 1, orderDate: new Date(), status: 'pending', userId: user.id });
+      await lazy.saveChanges();
+
+      const order = (await lazy.orders.where(o => o.orderNumber === 'LAZY-001').first()) as LazyEntity<Order>;
+      assertEqual(order.user, undefined);
+
+      const owner = (await order.$load('user')) as LazyEntity<User>;
+      assertEqual(owner!.name, 'Lazy User');
+      assertEqual((await owner!.$load('department'))!.name, 'Lazy Dept');
+      assertEqual((await owner!.$load('orders'))!.length, 1);
+      assert(!Object.keys(order).includes('$load'), '$load should not be enumerable');
+
+      const eager = (await context.orders.first()) as any;
+      assertEqual(eager.$load, undefined, 'Lazy loading is opt-in');
+    } finally {
+      await lazy.dispose();
+    }
+  });
+
+  await runner.test('Explicit loading and entry state through entry()', async () => {
+    const db = new AppDbContext({ ...dbConfig, connectionString: 'memory://' });
+    await db.connect();
+
+    try {
+      const product = await db.products.add({ name: 'Entry Gadget', price: 10, stock: 5, isActive: true });
+      const user = await db.users.add({ name: 'Entry User', email: 'entry@test.com', createdAt: new Date() });
+      const added = await db.orders.add({ orderNumber: 'ENT-001', totalAmount: 60, orderDate: new Date(), status: 'pending', userId: user.id });
+      await db.orderItems.addRange([1, 2, 3].map(quantity => ({ quantity, unitPrice: 10, orderId: added.id, productId: product.id })));
+      assertEqual(db.entry(added).state, 'Added');
+      await db.saveChanges();
+
+      const order = (await db.orders.where(o => o.orderNumber === 'ENT-001').first())!;
+      const entry = db.entry(order);
+      assertEqual(entry.state, 'Unchanged');
+      assert(!entry.reference(o => o.user).isLoaded, 'Reference should not be loaded yet');
+
+      assertEqual((await entry.reference(o => o.user).load())!.name, 'Entry User');
+      assertEqual(order.user!.name, 'Entry User');
+
+      const items = await entry.collection(o => o.orderItems)
+        .query()
+        .where(i => i.quantity > 1)
+        .orderByDescending(i => i.quantity)
+        .take(1)
+        .load();
+      assertEqual(items.length, 1);
+      assertEqual(order.orderItems!.map(i => i.quantity).join(), '3');
+
+      await entry.collection(o => o.orderItems).load();
+      assertEqual(order.orderItems!.length, 3);
+
+      order.status = 'shipped';
+      await db.orders.update(order);
+      assertEqual(entry.state, 'Modified');
+      assertEqual(entry.originalValues!.status, 'pending');
+      assertEqual(Object.keys(entry.originalValues!).includes('orderItems'), false);
+
+      await db.saveChanges();
+      assertEqual(entry.state, 'Unchanged');
+      assertEqual(entry.originalValues!.status, 'shipped');
+      assertEqual(db.entry(new Order()).state, 'Detached');
+
+      let error: any;
+      try {
+        entry.collection(o => o.user);
+      } catch (e) {
+        error = e;
+      }
+      assert(error instanceof Error, 'A reference is not a collection');
+    } finally {
+      await db.dispose();
+    }
+  });
+
   await runner.test('Include simulation (manual join)', async () => {
     const dept = await context.departments.add({
       name: 'IT Department',
@@ -0,0 +1,241 @@
+import { TestRunner, assert, assertEqual, assertNotNull } from '../testRunner';
+import { seedTestData } from '../testUtils';
+import { AppDbContext } from '../../contexts/appDbContext';
+import { dbConfig } from '../../db.config';
+import { SqliteStorageProvider } from '../../../src/storage/sqliteStorageProvider';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import config from '../../test.config';
+
+const databaseFile = path.join(config.DB_PATH, 'myapp.sqlite');
+
+function hasSqliteDriver(): boolean {
+  try {
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function createSqliteContext(): Promise<AppDbContext> {
+  const context = new AppDbContext({ ...dbConfig, connectionString: `sqlite://${databaseFile}` });
+  await context.connect();
+  return context;
+}
+
+export async function run(runner: TestRunner): Promise<void> {
+  runner.startGroup('SQLite Storage Provider');
+
+  if (!hasSqliteDriver()) {
+    console.log('  node:sqlite is not available on this Node.js version, skipping');
+    runner.endGroup();
+    return;
+  }
+
+  await fs.rm(databaseFile, { force: true });
+
+  let context: AppDbContext;
+
+  await runner.test('Persists entities to a single file', async () => {
+    context = await createSqliteContext();
+    await seedTestData(context);
+    await context.saveChanges();
+    await context.dispose();
+
+    const stats = await fs.stat(databaseFile);
+    assert(stats.isFile(), 'SQLite database file should exist');
+
+    context = await createSqliteContext();
+    assertEqual(await context.users.count(), 3);
+    assertEqual(await context.products.count(), 4);
+    await context.dispose();
+  });
+
+  await runner.test('Maps column types on read', async () => {
+    context = await createSqliteContext();
+
+    const alice = await context.users.where(u => u.email === 'alice@test.com').first();
+    assertNotNull(alice);
+    assert(alice!.createdAt instanceof Date, 'Date columns should come back as Date');
+    assertEqual(typeof alice!.departmentId, 'number');
+
+    const monitor = await context.products.where(p => p.name === 'Monitor').first();
+    assertEqual(monitor!.isActive, false);
+
+    const charlie = await context.users.where(u => u.name === 'Charlie Brown').first();
+    assertEqual(charlie!.age, null, 'NULL columns should come back as null');
+
+    await context.dispose();
+  });
+
+  await runner.test('Updates and removals are saved', async () => {
+    context = await createSqliteContext();
+
+    const laptop = (await context.products.where(p => p.name === 'Laptop').first())!;
+    laptop.stock = 42;
+    await context.products.update(laptop);
+
+    const mouse = (await context.products.where(p => p.name === 'Mouse').first())!;
+    await context.products.remove(mouse);
+
+    await context.saveChanges();
+    await context.dispose();
+
+    context = await createSqliteContext();
+    assertEqual((await context.products.find(laptop.id))!.stock, 42);
+    assertEqual(await context.products.find(mouse.id), null);
+    await context.dispose();
+  });
+
+  await runner.test('Pushes analyzed predicates down to SQL', async () => {
+    context = await createSqliteContext();
+
+    const provider = context['storageProvider'];
+    const getData = provider.getData;
+    let tableReads = 0;
+    provider.getData = async (table: string) => {
+      tableReads++;
+      return getData.call(provider, table);
+    };
+
+    const users = await context.users
+      .where((u, p) => u.name >= p.from && u.email !== 'alice@test.com', { from: 'B' })
+      .toArray();
+    assertEqual(users.map(u => u.name).sort().join(','), 'Bob Smith,Charlie Brown');
+
+    const either = await context.users
+      .where(u => u.email === 'nobody@test.com' || u.name === 'Charlie Brown')
+      .toArray();
+    assertEqual(either.length, 1);
+    assertEqual(tableReads, 0, 'Analyzed predicates should not read the whole table');
+
+    await context.users.add({ name: 'Bea', email: 'bea@test.com', createdAt: new Date() });
+    const pending = await context.users.where((u, p) => u.name < p.to, { to: 'Bo' }).toArray();
+    assertEqual(pending.map(u => u.name).sort().join(','), 'Alice Johnson,Bea');
+
+    context.rejectChanges();
+    await context.dispose();
+  });
+
+  await runner.test('Streams rows through a cursor', async () => {
+    context = await createSqliteContext();
+    await context.users.add({ name: 'Streamed', email: 'streamed@test.com', createdAt: new Date() });
+
+    const provider = context['storageProvider'];
+    const getData = provider.getData;
+    let tableReads = 0;
+    provider.getData = async (table: string) => {
+      tableReads++;
+      return getData.call(provider, table);
+    };
+
+    const names: string[] = [];
+    for await (const user of context.users.asPlain()) {
+      names.push(user.name);
+    }
+    assertEqual(names.length, 4);
+    assert(names.includes('Streamed'), 'Pending rows should be streamed too');
+    assertEqual(tableReads, 0, 'Streaming should not read the whole table');
+
+    context.rejectChanges();
+    await context.dispose();
+  });
+
+  await runner.test('Streams filtered rows through a cursor', async () => {
+    context = await createSqliteContext();
+    await context.users.add({ name: 'Streamed', email: 'streamed@test.com', createdAt: new Date() });
+
+    const provider = context['storageProvider'];
+    const queryWhere = provider.queryWhere!;
+    let wholeReads = 0;
+    provider.queryWhere = async (table: string, predicate: any) => {
+      wholeReads++;
+      return queryWhere.call(provider, table, predicate);
+    };
+
+    const names: string[] = [];
+    for await (const user of context.users.where(u => u.name >= 'C')) {
+      names.push(user.name);
+    }
+    assertEqual(names.sort().join(), 'Charlie Brown,Streamed');
+    assertEqual(wholeReads, 0, 'A filtered stream should not read its rows at once');
+
+    context.rejectChanges();
+    await context.dispose();
+  });
+
+  await runner.test('A bulk update that fails part-way writes nothing', async () => {
+    context = await createSqliteContext();
+    const users = await context.users.orderBy(u => u.id).toArray();
+    const middle = users[1];
+    const provider = context['storageProvider'] as SqliteStorageProvider;
+    provider['database'].exec(
+      `CREATE TEMP TRIGGER reject_boom BEFORE UPDATE ON users WHEN NEW.name = 'Boom' BEGIN SELECT RAISE(ABORT, 'boom'); END`);
+
+    const updateByKey = provider.updateByKey;
+    let updates = 0;
+    provider.updateByKey = async (table: string, key: any, row: any) => {
+      updates++;
+      return updateByKey.call(provider, table, key, row);
+    };
+
+    let error: any;
+    try {
+      await context.users.executeUpdate(u => ({ name: u.id === middle.id ? 'Boom' : 'Renamed' }));
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error && /boom/.test(error.message), 'The middle row should fail in SQLite');
+
+    const stored = await provider.getData('users');
+    assertEqual(stored.map((u: any) => u.name).join(), users.map(u => u.name).join());
+    assertEqual(updates, users.length, 'The transaction should be rolled back without compensating writes');
+
+    await context.dispose();
+  });
+
+  await runner.test('A cursor does not visit rows inserted while it runs', async () => {
+    context = await createSqliteContext();
+    const before = await context.users.count();
+
+    let visited = 0;
+    for await (const user of context.users) {
+      await context.users.add({ name: `${user.name} copy`, email: `copy-${user.email}`, createdAt: new Date() });
+      await context.saveChanges();
+      if (++visited > before) break;
+    }
+    assertEqual(visited, before);
+    assertEqual(await context.users.count(), before * 2);
+
+    await context.dispose();
+  });
+
+  await runner.test('Null columns read and filter like the in-memory provider', async () => {
+    await fs.rm(databaseFile, { force: true });
+
+    const results: string[] = [];
+    for (const connectionString of ['memory://', `sqlite://${databaseFile}`]) {
+      context = new AppDbContext({ ...dbConfig, connectionString });
+      await context.connect();
+      await context.users.addRange([
+        { name: 'No Age', email: 'none@test.com', age: null as any, createdAt: new Date() },
+        { name: 'Thirty', email: 'thirty@test.com', age: 30, createdAt: new Date() }
+      ]);
+      await context.saveChanges();
+
+      const ages = (await context.users.orderBy(u => u.id).toArray()).map(u => String(u.age));
+      const missing = await context.users.where(u => u.age === null).count();
+      const younger = await context.users.where(u => u.age! < 40).count();
+      const older = await context.users.where(u => u.age! > 20).count();
+      results.push(`${ages.join()}|${missing}|${younger}|${older}`);
+      await context.dispose();
+    }
+    assertEqual(results[0], 'null,30|1|2|1');
+    assertEqual(results[1], results[0], 'SQLite should match the in-memory provider');
+  });
+
+  await fs.rm(databaseFile, { force: true });
+
+  runner.endGroup();
+}
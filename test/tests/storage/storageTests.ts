@@ -4,6 +4,7 @@ import { AppDbContext } from '../../contexts/appDbContext';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import config from '../../test.config';
+import { dbConfig } from '../../db.config';
 
 export async function run(runner: TestRunner): Promise<void> {
   runner.startGroup('Storage Provider Features');
@@ -19,6 +20,7 @@ export async function run(runner: TestRunner): Promise<void> {
       createdAt: new Date()
     });
     
+    await context.saveChanges();
     await context.dispose();
     
     const context2 = new AppDbContext();
@@ -48,6 +50,7 @@ export async function run(runner: TestRunner): Promise<void> {
       isActive: true
     });
     
+    await context.saveChanges();
     await context.dispose();
     
     const dataDir = config.DB_PATH;
@@ -177,5 +180,173 @@ export async function run(runner: TestRunner): Promise<void> {
     await context.dispose();
   });
   
+  await runner.test('Row-level writes skip whole-table saves', async () => {
+    context = await createTestContext();
+
+    const tags = await context.tags.addRange([
+      { name: 'row-1', color: '#111111' },
+      { name: 'row-2', color: '#222222' }
+    ]);
+    await context.saveChanges();
+
+    const provider = context['storageProvider'];
+    const saveData = provider.saveData;
+    let tableSaves = 0;
+    provider.saveData = async (table: string, data: any[]) => {
+      tableSaves++;
+      return saveData.call(provider, table, data);
+    };
+
+    tags[0].color = '#FFFFFF';
+    await context.tags.update(tags[0]);
+    await context.tags.remove(tags[1]);
+    await context.tags.add({ name: 'row-3', color: '#333333' });
+    await context.saveChanges();
+
+    assertEqual(tableSaves, 0, 'saveData should not be called');
+    assertEqual((await provider.getByKey!('tags', tags[0].id)).color, '#FFFFFF');
+    assertEqual(await provider.getByKey!('tags', tags[1].id), undefined);
+    assertEqual((await context.tags.toArray()).length, 2);
+
+    await context.dispose();
+  });
+
+  await runner.test('In-memory provider row-level operations', async () => {
+    context = new AppDbContext({ ...dbConfig, connectionString: 'memory://' });
+    await context.connect();
+
+    const dept = await context.departments.add({ name: 'Memory' });
+    await context.saveChanges();
+
+    dept.name = 'Memory Updated';
+    await context.departments.update(dept);
+    await context.saveChanges();
+
+    const found = await context.departments.find(dept.id);
+    assertEqual(found!.name, 'Memory Updated');
+
+    await context.departments.remove(dept);
+    await context.saveChanges();
+    assertEqual(await context.departments.find(dept.id), null);
+
+    await context.dispose();
+  });
+
+  await runner.test('Column types survive a restart', async () => {
+    await cleanDatabase();
+    context = await createTestContext();
+
+    const createdAt = new Date('2024-03-01T12:00:00.000Z');
+    const user = await context.users.add({ name: 'Typed User', email: 'typed@test.com', createdAt });
+    await context.profiles.add({
+      userId: user.id,
+      birthDate: new Date('1990-05-17T00:00:00.000Z'),
+      preferences: { theme: 'dark', lastSeen: createdAt },
+      followers: 12345678901234567890n,
+      avatar: Buffer.from([1, 2, 3])
+    });
+    await context.saveChanges();
+    await context.dispose();
+
+    context = new AppDbContext();
+    await context.connect();
+
+    const found = (await context.users.find(user.id))!;
+    assert(found.createdAt instanceof Date, 'createdAt should be a Date');
+    assertEqual(found.createdAt.getTime(), createdAt.getTime());
+
+    const profile = (await context.profiles.first())!;
+    assert(profile.birthDate instanceof Date, 'birthDate should be a Date');
+    assertEqual(profile.preferences!.theme, 'dark');
+    assert(profile.preferences!.lastSeen instanceof Date, 'Dates inside json columns should be restored');
+    assertEqual(profile.followers, 12345678901234567890n);
+    assert(Buffer.isBuffer(profile.avatar), 'avatar should be a Buffer');
+    assertEqual(profile.avatar!.toString('hex'), '010203');
+
+    await context.dispose();
+  });
+
+  await runner.test('Included navigations are not stored', async () => {
+    await cleanDatabase();
+    context = await createTestContext();
+
+    const user = await context.users.add({ name: 'Graph User', email: 'graph@test.com', createdAt: new Date() });
+    await context.orders.add({ orderNumber: 'GRAPH-1', totalAmount: 5, orderDate: new Date(), status: 'pending', userId: user.id });
+    await context.saveChanges();
+
+    const [order] = await context.orders.include(o => o.user).toArray();
+    await context.users.include(u => u.orders).toArray();
+    await context.orders.asPlain().include(o => o.user).toArray();
+    const [plain] = await context.orders.asPlain().toArray();
+    assertEqual(plain.user, undefined);
+    order.user!.orders = [order];
+    order.status = 'shipped';
+    await context.orders.update(order);
+    await context.saveChanges();
+    await context.dispose();
+
+    const stored = JSON.parse(await fs.readFile(path.join(config.DB_PATH, 'orders.json'), 'utf-8'));
+    assertEqual(stored.length, 1);
+    assertEqual(stored[0].status, 'shipped');
+    assertEqual('user' in stored[0], false);
+    const users = JSON.parse(await fs.readFile(path.join(config.DB_PATH, 'users.json'), 'utf-8'));
+    assertEqual('orders' in users[0], false);
+  });
+
+  await runner.test('Write-ahead log survives a crash', async () => {
+    await cleanDatabase();
+    const walConfig = { ...dbConfig, connectionString: `${dbConfig.connectionString}?wal=true` };
+
+    context = new AppDbContext(walConfig);
+    await context.connect();
+
+    const user = await context.users.add({
+      name: 'Logged User',
+      email: 'wal@test.com',
+      createdAt: new Date()
+    });
+    await context.saveChanges();
+
+    user.name = 'Renamed User';
+    await context.users.update(user);
+    await context.saveChanges();
+
+    const log = await fs.readFile(path.join(config.DB_PATH, 'users.log'), 'utf-8');
+    const ops = log.trim().split('\n').map(line => JSON.parse(line).op);
+    assertEqual(JSON.stringify(ops), JSON.stringify(['insert', 'update']));
+
+    // No dispose: the session ends without compacting, as after a crash
+    const recovered = new AppDbContext(walConfig);
+    await recovered.connect();
+
+    const found = await recovered.users.find(user.id);
+    assertNotNull(found);
+    assertEqual(found!.name, 'Renamed User');
+
+    const files = await fs.readdir(config.DB_PATH);
+    assert(!files.includes('users.log'), 'Log should be folded into the snapshot on connect');
+
+    await recovered.dispose();
+  });
+
+  await runner.test('Write-ahead log compaction', async () => {
+    await cleanDatabase();
+    context = new AppDbContext({ ...dbConfig, connectionString: `${dbConfig.connectionString}?wal=true&walCompactThreshold=3` });
+    await context.connect();
+
+    for (let i = 0; i < 3; i++) {
+      await context.tags.add({ name: `wal-${i}`, color: '#123456' });
+      await context.saveChanges();
+    }
+
+    const log = await fs.readFile(path.join(config.DB_PATH, 'tags.log'), 'utf-8');
+    assertEqual(log, '', 'Log should be emptied after compaction');
+
+    const snapshot = JSON.parse(await fs.readFile(path.join(config.DB_PATH, 'tags.json'), 'utf-8'));
+    assertEqual(snapshot.length, 3);
+
+    await context.dispose();
+  });
+  
   runner.endGroup();
 }
\ No newline at end of file
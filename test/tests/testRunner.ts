@@ -15,36 +15,45 @@ export class TestRunner {
   private currentGroup?: TestGroup;
   private totalTests = 0;
   private passedTests = 0;
+  private groupCount = 0;
   
-  async runAll(): Promise<void> {
+  async runAll(): Promise<boolean> {
     console.log('\n🧪 Running TypeScript ORM Test Suite\n');
     console.log('═'.repeat(50));
     
     const testGroups = [
       './entity/entityTests',
       './query/queryTests',
+      './query/indexTests',
+      './query/expressionTests',
       './relationships/relationshipTests',
       './storage/storageTests',
+      './storage/sqliteStorageTests',
       './concurrency/concurrencyTests',
       './validation/validationTests',
+      './transactions/transactionTests',
       './performance/performanceTests'
     ];
     
+    this.groupCount = testGroups.length;
+    
     for (const groupPath of testGroups) {
       try {
         const module = await import(groupPath);
         await module.run(this);
       } catch (error) {
-        console.error(`Failed to load test group ${groupPath}:`, error);
+        console.error(`Test group ${groupPath} did not complete:`, error);
+        this.recordGroupFailure(groupPath, error as Error);
       }
     }
     
     this.printSummary();
+    return this.passedTests === this.totalTests;
   }
   
   startGroup(name: string): void {
     this.currentGroup = { name, tests: [] };
-    console.log(`\n[${this.results.length + 1}/${7}] ${name}`);
+    console.log(`\n[${this.results.length + 1}/${this.groupCount}] ${name}`);
     console.log('─'.repeat(40));
   }
   
@@ -86,6 +95,21 @@ export class TestRunner {
     }
   }
   
+  /**
+   * Counts a group that threw outside of its tests as a failed test, so a
+   * crashing group cannot pass for a green run.
+   */
+  private recordGroupFailure(groupPath: string, error: Error): void {
+    if (!this.currentGroup) {
+      this.startGroup(groupPath);
+    }
+    this.totalTests++;
+    this.currentGroup!.tests.push({ name: 'Group did not complete', passed: false, error, duration: 0 });
+    console.log(`  ❌ Group did not complete`);
+    console.log(`     └─ ${error?.message}`);
+    this.endGroup();
+  }
+
   private printSummary(): void {
     console.log('\n' + '═'.repeat(50));
     console.log('\n📊 FINAL TEST RESULTS\n');
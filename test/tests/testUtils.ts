@@ -9,7 +9,7 @@ export async function cleanDatabase(): Promise<void> {
     const files = await fs.readdir(dataDir);
     await Promise.all(
       files
-        .filter(f => f.endsWith('.json'))
+        .filter(f => f.endsWith('.json') || f.endsWith('.log'))
         .map(f => fs.unlink(path.join(dataDir, f)))
     );
   } catch {
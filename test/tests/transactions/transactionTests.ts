@@ -0,0 +1,186 @@
+import { TestRunner, assert, assertEqual, assertThrows } from '../testRunner';
+import { createTestContext, seedTestData } from '../testUtils';
+import { AppDbContext } from '../../contexts/appDbContext';
+import { dbConfig } from '../../db.config';
+
+export async function run(runner: TestRunner): Promise<void> {
+  runner.startGroup('Transactions');
+
+  let context: AppDbContext;
+
+  await runner.test('Commit writes every DbSet', async () => {
+    context = await createTestContext();
+    await seedTestData(context);
+    await context.saveChanges();
+
+    const order = await context.transaction(async () => {
+      const order = await context.orders.add({
+        orderNumber: 'TX-COMMIT',
+        totalAmount: 59.98,
+        orderDate: new Date(),
+        status: 'pending',
+        userId: 1
+      });
+
+      await context.orderItems.add({
+        quantity: 2,
+        unitPrice: 29.99,
+        orderId: order.id,
+        productId: 2
+      });
+
+      return order;
+    });
+
+    assertEqual(context.changeTracker.hasChanges(), false);
+    assertEqual(context.currentTransaction, undefined);
+
+    const stored = await context['storageProvider'].getData('orders');
+    assert(stored.some(o => o.id === order.id), 'Committed order should reach storage');
+
+    await context.dispose();
+  });
+
+  await runner.test('Exception rolls back all writes', async () => {
+    context = await createTestContext();
+    await seedTestData(context);
+    await context.saveChanges();
+
+    const mouse = (await context.products.where(p => p.name === 'Mouse').first())!;
+    const stockBefore = mouse.stock;
+
+    await assertThrows(async () => {
+      await context.transaction(async () => {
+        const order = await context.orders.add({
+          orderNumber: 'TX-FAIL',
+          totalAmount: 29.99,
+          orderDate: new Date(),
+          status: 'pending',
+          userId: 1
+        });
+
+        await context.orderItems.add({
+          quantity: 1,
+          unitPrice: 29.99,
+          orderId: order.id,
+          productId: mouse.id
+        });
+
+        await context.saveChanges();
+        await context.products.update({ ...mouse, stock: stockBefore - 1 });
+
+        throw new Error('Payment declined');
+      });
+    });
+
+    assertEqual(await context.orders.count(), 0);
+    assertEqual(await context.orderItems.count(), 0);
+    assertEqual((await context.products.find(mouse.id))!.stock, stockBefore);
+
+    const stored = await context['storageProvider'].getData('orders');
+    assertEqual(stored.length, 0, 'Saved writes should be restored on rollback');
+
+    await context.dispose();
+  });
+
+  await runner.test('Manual begin, rollback and commit', async () => {
+    context = await createTestContext();
+
+    const rolledBack = context.beginTransaction();
+    await context.tags.add({ name: 'discarded', color: '#000000' });
+    await rolledBack.rollback();
+    assertEqual(await context.tags.count(), 0);
+
+    const committed = context.beginTransaction();
+    await context.tags.add({ name: 'kept', color: '#FFFFFF' });
+    await committed.commit();
+    assertEqual(await context.tags.count(), 1);
+
+    await assertThrows(() => committed.commit(), 'Completed transaction cannot commit again');
+
+    await context.dispose();
+  });
+
+  await runner.test('Only one transaction at a time', async () => {
+    context = await createTestContext();
+
+    const transaction = context.beginTransaction();
+    await assertThrows(() => { context.beginTransaction(); });
+    await transaction.rollback();
+
+    await context.dispose();
+  });
+
+  await runner.test('Nested transaction uses a savepoint', async () => {
+    context = await createTestContext();
+
+    await context.transaction(async () => {
+      await context.departments.add({ name: 'Outer' });
+
+      await assertThrows(() => context.transaction(async () => {
+        await context.departments.add({ name: 'Inner' });
+        await context.saveChanges();
+        throw new Error('Inner failure');
+      }));
+
+      await context.transaction(async () => {
+        await context.departments.add({ name: 'Inner Kept' });
+      });
+    });
+
+    const names = (await context.departments.toArray()).map(d => d.name).sort();
+    assertEqual(JSON.stringify(names), JSON.stringify(['Inner Kept', 'Outer']));
+
+    await context.dispose();
+  });
+
+  await runner.test('Explicit savepoints', async () => {
+    context = await createTestContext();
+
+    const transaction = context.beginTransaction();
+    await context.categories.add({ name: 'Before' });
+
+    const savepoint = transaction.createSavepoint('before-children');
+    await context.categories.add({ name: 'After' });
+    await context.saveChanges();
+
+    await transaction.rollbackToSavepoint(savepoint);
+    await transaction.commit();
+
+    const names = (await context.categories.toArray()).map(c => c.name);
+    assertEqual(JSON.stringify(names), JSON.stringify(['Before']));
+
+    await context.dispose();
+  });
+
+  await runner.test('Rollback restores values changed in place', async () => {
+    context = new AppDbContext({ ...dbConfig, connectionString: 'memory://' });
+    await context.connect();
+
+    const user = await context.users.add({ name: 'Deep', email: 'deep@test.com', createdAt: new Date() });
+    const profile = await context.profiles.add({
+      birthDate: new Date('1990-01-01'),
+      preferences: { theme: 'dark' },
+      userId: user.id
+    });
+    await context.saveChanges();
+
+    const transaction = context.beginTransaction();
+    profile.bio = 'Changed';
+    await context.profiles.update(profile);
+    await context.saveChanges();
+
+    profile.preferences!.theme = 'light';
+    await context.profiles.update(profile);
+    await context.saveChanges();
+    await transaction.rollback();
+
+    const restored = await context.profiles.find(profile.id);
+    assertEqual(restored!.bio, undefined);
+    assertEqual(restored!.preferences!.theme, 'dark', 'Captured rows should not share nested values');
+
+    await context.dispose();
+  });
+
+  runner.endGroup();
+}
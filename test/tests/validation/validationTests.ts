@@ -1,6 +1,7 @@
 import { TestRunner, assert, assertEqual, assertThrows, assertNotNull } from '../testRunner';
 import { createTestContext } from '../testUtils';
 import { AppDbContext } from '../../contexts/appDbContext';
+import { UniqueConstraintError, ValidationError } from '../../../src/core/errors';
 
 export async function run(runner: TestRunner): Promise<void> {
   runner.startGroup('Validation & Error Handling');
@@ -241,5 +242,132 @@ export async function run(runner: TestRunner): Promise<void> {
     await context.dispose();
   });
   
+  await runner.test('Unique column rejects duplicate on add', async () => {
+    context = await createTestContext();
+    
+    await context.users.add({ name: 'First', email: 'taken@test.com', createdAt: new Date() });
+    
+    let error: any;
+    try {
+      await context.users.add({ name: 'Second', email: 'taken@test.com', createdAt: new Date() });
+    } catch (e) {
+      error = e;
+    }
+    
+    assert(error instanceof UniqueConstraintError, 'Should throw UniqueConstraintError');
+    assertEqual(error.tableName, 'users');
+    assertEqual(error.column, 'email');
+    assertEqual(error.value, 'taken@test.com');
+    assertEqual(await context.users.count(), 1);
+    
+    await context.dispose();
+  });
+  
+  await runner.test('Unique column checked by addRange and update', async () => {
+    context = await createTestContext();
+    
+    await assertThrows(async () => {
+      await context.users.addRange([
+        { name: 'A', email: 'same@test.com', createdAt: new Date() },
+        { name: 'B', email: 'same@test.com', createdAt: new Date() }
+      ]);
+    }, 'Duplicate within a batch should throw');
+    assertEqual(await context.users.count(), 0, 'Rejected batch should add nothing');
+    
+    const [a, b] = await context.users.addRange([
+      { name: 'A', email: 'a@test.com', createdAt: new Date() },
+      { name: 'B', email: 'b@test.com', createdAt: new Date() }
+    ]);
+    await context.saveChanges();
+    
+    await assertThrows(async () => {
+      await context.users.update({ ...b, email: 'a@test.com' });
+    }, 'Update to a taken value should throw');
+    
+    await context.users.update({ ...a, name: 'A2' });
+    await context.users.remove(a);
+    await context.users.update({ ...b, email: 'a@test.com' });
+    await context.saveChanges();
+    
+    assertEqual((await context.users.where(u => u.email === 'a@test.com').single()).id, b.id);
+    
+    await context.dispose();
+  });
+  
+  await runner.test('Unique column checked again by saveChanges', async () => {
+    context = await createTestContext();
+    
+    const [, b] = await context.users.addRange([
+      { name: 'A', email: 'a@test.com', createdAt: new Date() },
+      { name: 'B', email: 'b@test.com', createdAt: new Date() }
+    ]);
+    b.email = 'a@test.com';
+    
+    let error: any;
+    try {
+      await context.saveChanges();
+    } catch (e) {
+      error = e;
+    }
+    
+    assert(error instanceof UniqueConstraintError, 'Should throw UniqueConstraintError');
+    assertEqual(error.value, 'a@test.com');
+    context.rejectChanges();
+    assertEqual(await context.users.count(), 0, 'Nothing should be written');
+    
+    await context.dispose();
+  });
+  
+  await runner.test('Column defaults applied on insert', async () => {
+    context = await createTestContext();
+    
+    const product = await context.products.add({ name: 'Defaulted', price: 5, stock: 1 } as any);
+    assertEqual(product.isActive, true);
+    
+    const explicit = await context.products.add({ name: 'Inactive', price: 5, stock: 1, isActive: false });
+    assertEqual(explicit.isActive, false);
+    
+    await context.dispose();
+  });
+  
+  await runner.test('ValidationError lists every failing property', async () => {
+    context = await createTestContext();
+    
+    let error: any;
+    try {
+      await context.users.add({ name: 42, email: null, age: 'old', createdAt: 'yesterday' } as any);
+    } catch (e) {
+      error = e;
+    }
+    
+    assert(error instanceof ValidationError, 'Should throw ValidationError');
+    assertEqual(error.tableName, 'users');
+    assertEqual(
+      error.failures.map((f: any) => f.property).join(','),
+      'name,email,age,createdAt'
+    );
+    assertEqual(await context.users.count(), 0);
+    
+    await context.dispose();
+  });
+  
+  await runner.test('Updates are validated', async () => {
+    context = await createTestContext();
+    
+    const product = await context.products.add({ name: 'Valid', price: 10, stock: 1, isActive: true });
+    
+    await assertThrows(async () => {
+      await context.products.update({ ...product, price: 'free' as any });
+    }, 'Wrong type should be rejected');
+    
+    await assertThrows(async () => {
+      await context.products.update({ ...product, name: undefined as any });
+    }, 'Missing required value should be rejected');
+    
+    assertEqual((await context.products.find(product.id))!.price, 10);
+    
+    await context.dispose();
+  });
+  
   runner.endGroup();
 }
\ No newline at end of file